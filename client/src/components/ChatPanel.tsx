@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from "react";
+import { MessageCircle, Send, Volume2, VolumeX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CHAT_MAX_LENGTH, type ChatMessage, type ConnectedDevice } from "@shared/schema";
+import type { getTranslation } from "@/lib/translations";
+
+interface Props {
+  messages: ChatMessage[];
+  devices: ConnectedDevice[];
+  deviceId: string | null;
+  isHost: boolean;
+  onSend: (text: string) => void;
+  onMute: (deviceId: string, muted: boolean) => void;
+  t: ReturnType<typeof getTranslation>;
+}
+
+// The room chat on a phone. The host can mute anyone still in the room from
+// their messages.
+export function ChatPanel({ messages, devices, deviceId, isHost, onSend, onMute, t }: Props) {
+  const [draft, setDraft] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const muted = devices.some((device) => device.id === deviceId && device.muted);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [messages.length]);
+
+  const send = () => {
+    const text = draft.trim();
+    if (!text) return;
+    onSend(text);
+    setDraft("");
+  };
+
+  return (
+    <div className="flex flex-col">
+      <ScrollArea className="h-[calc(100vh-260px)]">
+        <div className="p-4 space-y-2">
+          {messages.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <MessageCircle className="w-12 h-12 mx-auto mb-3 opacity-50" />
+              <p>{t.noChatMessages}</p>
+            </div>
+          ) : (
+            messages.map((message) => {
+              const mine = message.deviceId === deviceId;
+              const sender = devices.find((device) => device.id === message.deviceId);
+              return (
+                <div
+                  key={message.id}
+                  className={`flex flex-col ${mine ? 'items-end' : 'items-start'}`}
+                  data-testid={`chat-message-${message.id}`}
+                >
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                    {message.name}
+                    {isHost && !mine && sender && sender.type === "mobile" && (
+                      <button
+                        type="button"
+                        onClick={() => onMute(sender.id, !sender.muted)}
+                        aria-label={sender.muted ? t.unmuteDevice : t.muteDevice}
+                        className="hover:text-destructive"
+                        data-testid={`button-mute-${message.id}`}
+                      >
+                        {sender.muted ? <VolumeX className="w-3 h-3" /> : <Volume2 className="w-3 h-3" />}
+                      </button>
+                    )}
+                  </span>
+                  <p className={`text-sm rounded-lg px-3 py-1.5 max-w-[80%] break-words ${mine ? 'bg-primary text-primary-foreground' : 'bg-muted'}`}>
+                    {message.text}
+                  </p>
+                </div>
+              );
+            })
+          )}
+          <div ref={bottomRef} />
+        </div>
+      </ScrollArea>
+      <div className="flex gap-2 px-4 py-2 border-t border-border">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && send()}
+          maxLength={CHAT_MAX_LENGTH}
+          placeholder={muted ? t.chatMuted : t.chatPlaceholder}
+          disabled={muted}
+          data-testid="input-chat"
+        />
+        <Button size="icon" onClick={send} disabled={muted || !draft.trim()} data-testid="button-send-chat">
+          <Send className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
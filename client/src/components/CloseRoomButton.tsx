@@ -0,0 +1,49 @@
+import { DoorClosed } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import type { getTranslation } from "@/lib/translations";
+
+interface Props {
+  onConfirm: () => void;
+  t: ReturnType<typeof getTranslation>;
+}
+
+// Host control that deletes the room for everyone, behind a confirmation
+export function CloseRoomButton({ onConfirm, t }: Props) {
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant="outline" className="h-7 text-destructive" data-testid="button-close-room">
+          <DoorClosed className="w-4 h-4 mr-1" />
+          {t.closeRoom}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t.closeRoomConfirm}</AlertDialogTitle>
+          <AlertDialogDescription>{t.closeRoomWarning}</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel data-testid="button-cancel-close-room">{t.cancel}</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={onConfirm}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            data-testid="button-confirm-close-room"
+          >
+            {t.closeRoom}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,86 @@
+import { Trophy, Star, Mic } from "lucide-react";
+import type { Leaderboard } from "@shared/schema";
+import type { getTranslation } from "@/lib/translations";
+
+interface Props {
+  leaderboard: Leaderboard;
+  t: ReturnType<typeof getTranslation>;
+  // The TV shows it full screen; phones get a compact panel
+  variant: "tv" | "mobile";
+}
+
+export function LeaderboardView({ leaderboard, t, variant }: Props) {
+  const isTv = variant === "tv";
+
+  if (leaderboard.topSingers.length === 0 && leaderboard.topSongs.length === 0) {
+    return (
+      <div className={`text-center text-muted-foreground ${isTv ? "py-24 text-2xl" : "py-6 text-sm"}`}>
+        <Trophy className={`mx-auto mb-3 opacity-50 ${isTv ? "w-16 h-16" : "w-8 h-8"}`} />
+        <p>{t.noScoresYet}</p>
+      </div>
+    );
+  }
+
+  const rankClass = (rank: number) =>
+    rank === 0 ? "text-yellow-400" : rank === 1 ? "text-gray-300" : rank === 2 ? "text-amber-600" : "text-muted-foreground";
+
+  return (
+    <div className={isTv ? "grid grid-cols-2 gap-12" : "space-y-4"} data-testid="leaderboard">
+      <section>
+        <h3 className={`font-semibold flex items-center gap-2 ${isTv ? "text-3xl mb-6" : "text-sm mb-2"}`}>
+          <Trophy className={isTv ? "w-8 h-8 text-primary" : "w-4 h-4 text-primary"} />
+          {t.topSingers}
+        </h3>
+        <ol className={isTv ? "space-y-4" : "space-y-1.5"}>
+          {leaderboard.topSingers.map((singer, rank) => (
+            <li
+              key={singer.singerName}
+              className={`flex items-center gap-3 ${isTv ? "text-2xl" : "text-sm"}`}
+              data-testid={`leaderboard-singer-${rank}`}
+            >
+              <span className={`font-bold w-8 text-right ${rankClass(rank)}`}>{rank + 1}</span>
+              <span className="flex-1 truncate flex items-center gap-2">
+                <Mic className={isTv ? "w-5 h-5 text-muted-foreground" : "w-3 h-3 text-muted-foreground"} />
+                {singer.singerName}
+              </span>
+              <span className={`text-muted-foreground ${isTv ? "text-lg" : "text-xs"}`}>
+                {singer.songCount} {singer.songCount === 1 ? t.song : t.songs} · {t.averageScore}
+              </span>
+              <span className="font-bold text-primary w-12 text-right">{singer.averageScore}</span>
+            </li>
+          ))}
+        </ol>
+      </section>
+
+      <section>
+        <h3 className={`font-semibold flex items-center gap-2 ${isTv ? "text-3xl mb-6" : "text-sm mb-2"}`}>
+          <Star className={isTv ? "w-8 h-8 text-primary" : "w-4 h-4 text-primary"} />
+          {t.topSongs}
+        </h3>
+        <ol className={isTv ? "space-y-4" : "space-y-1.5"}>
+          {leaderboard.topSongs.map((song, rank) => (
+            <li
+              key={song.id}
+              className={`flex items-center gap-3 ${isTv ? "text-2xl" : "text-sm"}`}
+              data-testid={`leaderboard-song-${rank}`}
+            >
+              <span className={`font-bold w-8 text-right ${rankClass(rank)}`}>{rank + 1}</span>
+              {isTv && (
+                <img src={song.thumbnail} alt={song.title} className="w-20 h-12 object-cover rounded shrink-0" />
+              )}
+              <span className="flex-1 min-w-0">
+                <span className="block truncate">{song.title}</span>
+                {song.singerName && (
+                  <span className={`block truncate text-muted-foreground ${isTv ? "text-lg" : "text-xs"}`}>
+                    {song.singerName}
+                  </span>
+                )}
+              </span>
+              <span className="font-bold text-primary w-12 text-right">{song.score}</span>
+            </li>
+          ))}
+        </ol>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { Check, Clock, Mic, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import type { QueueItem } from "@shared/schema";
+import type { getTranslation } from "@/lib/translations";
+
+interface Props {
+  songs: QueueItem[];
+  isHost: boolean;
+  onApprove: (song: QueueItem) => void;
+  onReject: (song: QueueItem) => void;
+  // Lets a guest take back their own request
+  onRemove: (song: QueueItem) => void;
+  t: ReturnType<typeof getTranslation>;
+}
+
+// Songs waiting for the host's approval. The host sees every request with
+// approve and reject buttons; a guest only sees their own.
+export function PendingSongs({ songs, isHost, onApprove, onReject, onRemove, t }: Props) {
+  if (songs.length === 0) return null;
+
+  return (
+    <div className="space-y-2" data-testid="list-pending-songs">
+      <span className="flex items-center gap-1 text-sm font-medium">
+        <Clock className="w-4 h-4" />
+        {t.pendingApproval} ({songs.length})
+      </span>
+      {songs.map((song) => (
+        <Card key={song.id} className="p-3 border-dashed" data-testid={`card-pending-${song.id}`}>
+          <div className="flex gap-2 items-center">
+            <img
+              src={song.thumbnail}
+              alt={song.title}
+              className="w-12 h-9 object-cover rounded shrink-0 opacity-70"
+            />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-sm line-clamp-2 leading-tight">{song.title}</p>
+              {song.singerName && (
+                <span className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                  <Mic className="w-3 h-3" />
+                  {song.singerName}
+                </span>
+              )}
+            </div>
+            {isHost ? (
+              <>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => onApprove(song)}
+                  aria-label={t.approveSong}
+                  data-testid={`button-approve-${song.id}`}
+                  className="shrink-0 text-success h-8 w-8"
+                >
+                  <Check className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => onReject(song)}
+                  aria-label={t.rejectSong}
+                  data-testid={`button-reject-${song.id}`}
+                  className="shrink-0 text-muted-foreground hover:text-destructive h-8 w-8"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </>
+            ) : (
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => onRemove(song)}
+                data-testid={`button-remove-pending-${song.id}`}
+                className="shrink-0 text-muted-foreground hover:text-destructive h-8 w-8"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </Card>
+      ))}
+    </div>
+  );
+}
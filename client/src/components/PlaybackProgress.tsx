@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { formatDuration } from "@shared/library";
+import type { getTranslation } from "@/lib/translations";
+
+interface Props {
+  // Last position the TV reported, in seconds, and when it arrived here
+  position: number;
+  receivedAt: number;
+  duration: number | null;
+  isPlaying: boolean;
+  canSeek: boolean;
+  onSeek: (seconds: number) => void;
+  t: ReturnType<typeof getTranslation>;
+}
+
+// Progress of the song on the TV. Between the TV's reports the position is
+// extrapolated from the last one while the song plays.
+export function PlaybackProgress({ position, receivedAt, duration, isPlaying, canSeek, onSeek, t }: Props) {
+  const [now, setNow] = useState(Date.now());
+  const [dragValue, setDragValue] = useState<number | null>(null);
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!isPlaying) return;
+    const interval = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(interval);
+  }, [isPlaying, receivedAt]);
+
+  const elapsed = isPlaying ? Math.max(0, (now - receivedAt) / 1000) : 0;
+  const current = Math.min(duration ?? Infinity, position + elapsed);
+  const shown = dragValue ?? current;
+
+  return (
+    <div className="flex items-center gap-2" data-testid="playback-progress">
+      <span className="text-xs text-muted-foreground tabular-nums w-10 text-right" data-testid="text-playback-position">
+        {formatDuration(shown)}
+      </span>
+      <Slider
+        value={[shown]}
+        max={duration ?? Math.max(shown, 1)}
+        step={1}
+        disabled={!canSeek || duration === null}
+        onValueChange={([value]) => setDragValue(value)}
+        onValueCommit={([value]) => {
+          setDragValue(null);
+          onSeek(value);
+        }}
+        aria-label={t.songPosition}
+        className="flex-1"
+        data-testid="slider-playback-position"
+      />
+      <span className="text-xs text-muted-foreground tabular-nums w-10" data-testid="text-playback-duration">
+        {duration === null ? "--:--" : formatDuration(duration)}
+      </span>
+      {canSeek && (
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={() => onSeek(0)}
+          aria-label={t.restartSong}
+          className="h-8 w-8 shrink-0"
+          data-testid="button-restart-song"
+        >
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { DuplicatePolicy, RoomSettings } from "@shared/schema";
+import type { getTranslation } from "@/lib/translations";
+
+interface Props {
+  settings: RoomSettings;
+  onChange: (settings: Partial<RoomSettings>) => void;
+  t: ReturnType<typeof getTranslation>;
+}
+
+const MAX_WAITING_OPTIONS = [1, 2, 3, 5, 10];
+const COOLDOWN_OPTIONS = [30, 60, 120, 300];
+const DUPLICATE_WINDOW_OPTIONS = [15, 30, 60, 120, 240];
+
+// Keeps a value the host set some other way selectable
+function withCurrent(options: number[], current: number) {
+  return options.includes(current) ? options : [...options, current].sort((a, b) => a - b);
+}
+
+// Host controls for how many songs a singer may queue and how often
+export function QueueRulesSettings({ settings, onChange, t }: Props) {
+  const duplicatePolicies: { value: DuplicatePolicy; label: string }[] = [
+    { value: "allow", label: t.duplicateAllow },
+    { value: "warn", label: t.duplicateWarn },
+    { value: "reject", label: t.duplicateReject },
+    { value: "allow_after", label: t.duplicateAllowAfter },
+  ];
+
+  return (
+    <div className="space-y-2 text-sm" data-testid="setting-queue-limits">
+      <span className="font-medium block">{t.queueLimits}</span>
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-muted-foreground">{t.maxWaitingPerSinger}</span>
+        <Select
+          value={settings.maxWaitingPerSinger === null ? "none" : String(settings.maxWaitingPerSinger)}
+          onValueChange={(value) => onChange({ maxWaitingPerSinger: value === "none" ? null : Number(value) })}
+        >
+          <SelectTrigger className="h-8 w-32" data-testid="select-max-waiting">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">{t.noLimit}</SelectItem>
+            {withCurrent(MAX_WAITING_OPTIONS, settings.maxWaitingPerSinger ?? MAX_WAITING_OPTIONS[0]).map((count) => (
+              <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-muted-foreground">{t.addCooldown}</span>
+        <Select
+          value={String(settings.addCooldownSeconds)}
+          onValueChange={(value) => onChange({ addCooldownSeconds: Number(value) })}
+        >
+          <SelectTrigger className="h-8 w-32" data-testid="select-add-cooldown">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="0">{t.noCooldown}</SelectItem>
+            {withCurrent(COOLDOWN_OPTIONS, settings.addCooldownSeconds || COOLDOWN_OPTIONS[0]).map((seconds) => (
+              <SelectItem key={seconds} value={String(seconds)}>{seconds} {t.secondsShort}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-muted-foreground">{t.duplicateSongs}</span>
+        <div className="flex gap-2">
+          <Select
+            value={settings.duplicatePolicy}
+            onValueChange={(value) => onChange({ duplicatePolicy: value as DuplicatePolicy })}
+          >
+            <SelectTrigger className="h-8 w-32" data-testid="select-duplicate-policy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {duplicatePolicies.map((policy) => (
+                <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {settings.duplicatePolicy === "allow_after" && (
+            <Select
+              value={String(settings.duplicateWindowMinutes)}
+              onValueChange={(value) => onChange({ duplicateWindowMinutes: Number(value) })}
+            >
+              <SelectTrigger className="h-8 w-24" data-testid="select-duplicate-window">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {withCurrent(DUPLICATE_WINDOW_OPTIONS, settings.duplicateWindowMinutes).map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>{minutes} {t.minutesShort}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import type { Reaction } from "@shared/schema";
+import { REACTION_EMOJI } from "@shared/reactions";
+
+export interface FloatingReaction {
+  id: number;
+  reaction: Reaction;
+  // Horizontal start, as a percentage of the video's width
+  left: number;
+}
+
+// Emoji drifting up over the TV video as phones react
+export function ReactionOverlay({ reactions }: { reactions: FloatingReaction[] }) {
+  return (
+    <div className="absolute inset-0 overflow-hidden pointer-events-none" data-testid="reaction-overlay">
+      {reactions.map((floating) => (
+        <span
+          key={floating.id}
+          className="absolute bottom-4 text-5xl animate-float-up"
+          style={{ left: `${floating.left}%` }}
+        >
+          {REACTION_EMOJI[floating.reaction]}
+        </span>
+      ))}
+    </div>
+  );
+}
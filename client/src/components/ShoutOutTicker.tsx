@@ -0,0 +1,31 @@
+import { MessageCircle } from "lucide-react";
+import type { ChatMessage } from "@shared/schema";
+
+// Scroll speed, so long lines don't race past
+const CHARACTERS_PER_SECOND = 12;
+const MIN_DURATION_SECONDS = 15;
+
+// The latest chat messages scrolling along the bottom of the TV. The line
+// starts over from the right whenever a message arrives.
+export function ShoutOutTicker({ messages }: { messages: ChatMessage[] }) {
+  if (messages.length === 0) return null;
+
+  const line = messages.map((message) => `${message.name}: ${message.text}`).join("   •   ");
+  const duration = Math.max(MIN_DURATION_SECONDS, line.length / CHARACTERS_PER_SECOND);
+
+  return (
+    <div className="flex items-center gap-2 border-t border-border px-3 py-2 overflow-hidden" data-testid="shout-out-ticker">
+      <MessageCircle className="w-4 h-4 text-primary shrink-0" />
+      <div className="flex-1 overflow-hidden">
+        <span
+          key={messages[messages.length - 1].id}
+          className="inline-block whitespace-nowrap animate-ticker"
+          style={{ animationDuration: `${duration}s` }}
+          data-testid="text-shout-outs"
+        >
+          {line}
+        </span>
+      </div>
+    </div>
+  );
+}
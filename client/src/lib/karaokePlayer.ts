@@ -0,0 +1,228 @@
+import type { MediaSource } from "@shared/schema";
+import { getLocalSongId, librarySongStreamUrl } from "@shared/library";
+
+declare global {
+  interface Window {
+    YT: any;
+    onYouTubeIframeAPIReady: () => void;
+  }
+}
+
+export interface KaraokePlayerEvents {
+  // The song played to the end
+  onEnded: () => void;
+  // The song can't be played (removed video, unsupported file, ...)
+  onError: () => void;
+}
+
+// Plays songs from one media source on the TV. Each implementation renders
+// into its own element inside the given container, so the TV page can swap
+// players when the source changes without React touching their DOM.
+export interface KaraokePlayer {
+  readonly source: MediaSource;
+  // startAt resumes a song part way through, in seconds
+  load(videoId: string, autoplay: boolean, startAt?: number): void;
+  play(): void;
+  pause(): void;
+  seekTo(seconds: number): void;
+  // Seconds into the song; 0 before it starts
+  getCurrentTime(): number;
+  // Length in seconds, null until the player knows it
+  getDuration(): number | null;
+  destroy(): void;
+}
+
+let youTubeApi: Promise<void> | null = null;
+
+// Injects the YouTube IFrame API script once, on first use, so venues that
+// only play local files never load it
+function loadYouTubeApi(): Promise<void> {
+  if (!youTubeApi) {
+    youTubeApi = new Promise((resolve) => {
+      if (window.YT && window.YT.Player) {
+        resolve();
+        return;
+      }
+      window.onYouTubeIframeAPIReady = () => resolve();
+      const tag = document.createElement("script");
+      tag.src = "https://www.youtube.com/iframe_api";
+      const firstScriptTag = document.getElementsByTagName("script")[0];
+      firstScriptTag.parentNode?.insertBefore(tag, firstScriptTag);
+    });
+  }
+  return youTubeApi;
+}
+
+class YouTubeKaraokePlayer implements KaraokePlayer {
+  readonly source = "youtube";
+  private wrapper: HTMLDivElement;
+  private player: any = null;
+  private ready = false;
+  private destroyed = false;
+  // What to show once the IFrame player is ready
+  private videoId: string | null = null;
+  private startAt = 0;
+  private playing = false;
+
+  constructor(container: HTMLElement, private events: KaraokePlayerEvents) {
+    // YT.Player replaces its target with an iframe, so give it a child of an
+    // element we keep hold of
+    this.wrapper = document.createElement("div");
+    this.wrapper.className = "w-full h-full";
+    const target = document.createElement("div");
+    this.wrapper.appendChild(target);
+    container.appendChild(this.wrapper);
+
+    loadYouTubeApi().then(() => {
+      if (this.destroyed) return;
+      this.player = new window.YT.Player(target, {
+        width: "100%",
+        height: "100%",
+        playerVars: {
+          autoplay: 1,
+          controls: 0,
+          disablekb: 1,
+          fs: 0,
+          modestbranding: 1,
+          rel: 0,
+          showinfo: 0,
+        },
+        events: {
+          onReady: () => {
+            this.ready = true;
+            if (this.videoId) {
+              this.load(this.videoId, this.playing, this.startAt);
+            }
+          },
+          onStateChange: (event: any) => {
+            if (event.data === window.YT.PlayerState.ENDED) {
+              this.events.onEnded();
+            }
+          },
+          onError: () => this.events.onError(),
+        },
+      });
+    });
+  }
+
+  load(videoId: string, autoplay: boolean, startAt = 0) {
+    this.videoId = videoId;
+    this.startAt = startAt;
+    this.playing = autoplay;
+    if (!this.ready) return;
+    if (autoplay) {
+      this.player.loadVideoById({ videoId, startSeconds: startAt });
+    } else {
+      this.player.cueVideoById({ videoId, startSeconds: startAt });
+    }
+  }
+
+  play() {
+    this.playing = true;
+    if (this.ready) this.player.playVideo();
+  }
+
+  pause() {
+    this.playing = false;
+    if (this.ready) this.player.pauseVideo();
+  }
+
+  seekTo(seconds: number) {
+    if (this.ready) {
+      this.player.seekTo(seconds, true);
+    } else {
+      this.startAt = seconds;
+    }
+  }
+
+  getCurrentTime(): number {
+    return this.ready ? this.player.getCurrentTime() || 0 : this.startAt;
+  }
+
+  getDuration(): number | null {
+    // 0 until the video's metadata has loaded
+    return this.ready ? this.player.getDuration() || null : null;
+  }
+
+  destroy() {
+    this.destroyed = true;
+    try {
+      this.player?.destroy();
+    } catch (e) {}
+    this.wrapper.remove();
+  }
+}
+
+// Streams local library files through a plain <video> element, which works
+// without internet
+class Html5VideoKaraokePlayer implements KaraokePlayer {
+  readonly source = "local";
+  private video: HTMLVideoElement;
+  private destroyed = false;
+
+  constructor(container: HTMLElement, private events: KaraokePlayerEvents) {
+    this.video = document.createElement("video");
+    this.video.className = "w-full h-full bg-black";
+    this.video.playsInline = true;
+    this.video.addEventListener("ended", () => {
+      if (!this.destroyed) this.events.onEnded();
+    });
+    this.video.addEventListener("error", () => {
+      if (!this.destroyed) this.events.onError();
+    });
+    container.appendChild(this.video);
+  }
+
+  load(videoId: string, autoplay: boolean, startAt = 0) {
+    const songId = getLocalSongId(videoId);
+    if (!songId) {
+      this.events.onError();
+      return;
+    }
+    // A media fragment starts playback at startAt once metadata is in
+    this.video.src = startAt > 0
+      ? `${librarySongStreamUrl(songId)}#t=${startAt}`
+      : librarySongStreamUrl(songId);
+    if (autoplay) this.play();
+  }
+
+  play() {
+    // Rejected when the browser blocks autoplay; the host can press play
+    this.video.play().catch(() => {});
+  }
+
+  pause() {
+    this.video.pause();
+  }
+
+  seekTo(seconds: number) {
+    this.video.currentTime = seconds;
+  }
+
+  getCurrentTime(): number {
+    return this.video.currentTime;
+  }
+
+  getDuration(): number | null {
+    // NaN until metadata has loaded, Infinity for live streams
+    return Number.isFinite(this.video.duration) ? this.video.duration : null;
+  }
+
+  destroy() {
+    this.destroyed = true;
+    this.video.pause();
+    // Stops the download of the current file
+    this.video.removeAttribute("src");
+    this.video.load();
+    this.video.remove();
+  }
+}
+
+export function createKaraokePlayer(source: MediaSource, container: HTMLElement, events: KaraokePlayerEvents): KaraokePlayer {
+  switch (source) {
+    case "youtube":
+      return new YouTubeKaraokePlayer(container, events);
+    case "local":
+      return new Html5VideoKaraokePlayer(container, events);
+  }
+}
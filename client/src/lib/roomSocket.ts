@@ -0,0 +1,31 @@
+import { serverMessageSchema, type ServerMessage } from '@shared/schema';
+
+// Parses a frame from the room socket. Frames that don't match the shared
+// schema are logged and dropped so a malformed message can't break the page.
+export function parseServerMessage(data: string): ServerMessage | null {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    console.warn('Ignoring non-JSON room message');
+    return null;
+  }
+
+  const parsed = serverMessageSchema.safeParse(payload);
+  if (!parsed.success) {
+    console.warn('Ignoring invalid room message', parsed.error.issues);
+    return null;
+  }
+  return parsed.data;
+}
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+
+// Delay before reconnect attempt number `attempt` (0-based): doubles from 1s
+// up to 30s. The jitter keeps phones that lost the same Wi-Fi from all
+// reconnecting at the same moment.
+export function reconnectDelay(attempt: number): number {
+  const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
@@ -0,0 +1,39 @@
+import type { VideoSearchResult } from "@shared/schema";
+
+async function fetchResults(url: string): Promise<VideoSearchResult[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Search failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Searches the venue's local library and the configured online providers
+// together. Local songs come first since they play without internet; the
+// search only fails when neither source answers.
+export async function searchSongs(query: string): Promise<VideoSearchResult[]> {
+  const q = encodeURIComponent(query);
+  const [library, online] = await Promise.allSettled([
+    fetchResults(`/api/library/search?q=${q}`),
+    fetchResults(`/api/search?q=${q}`),
+  ]);
+  if (library.status === "rejected" && online.status === "rejected") {
+    throw online.reason;
+  }
+
+  const results = [
+    ...(library.status === "fulfilled" ? library.value : []),
+    ...(online.status === "fulfilled" ? online.value : []),
+  ];
+  // SEARCH_PROVIDERS=local returns the same songs from both endpoints
+  const seen = new Set<string>();
+  return results.filter(result => {
+    if (seen.has(result.videoId)) return false;
+    seen.add(result.videoId);
+    return true;
+  });
+}
+
+export function isLocalSong(result: Pick<VideoSearchResult, "source">): boolean {
+  return result.source === "local";
+}
@@ -20,8 +20,26 @@ export const translations = {
     error: 'Lỗi',
     failedToCreateRoom: 'Không thể tạo phòng',
     greatPerformance: 'Tuyệt Vời!',
+    scoringMic: 'Micro chấm điểm',
+    micUnavailable: 'Không thể dùng micro để chấm điểm',
+    pitchStability: 'Cao độ',
+    voiceActivity: 'Thời lượng hát',
+    dynamics: 'Sắc thái',
+    leaderboard: 'Bảng xếp hạng',
+    topSingers: 'Ca sĩ xuất sắc',
+    topSongs: 'Bài hát điểm cao',
+    noScoresYet: 'Chưa có điểm nào tối nay',
+    averageScore: 'điểm trung bình',
+    close: 'Đóng',
     playing: 'Đang phát',
     unknownSong: 'Bài hát không xác định',
+    roomPinOptional: 'Mã PIN phòng (không bắt buộc)',
+    hostPhone: 'Điện thoại chủ phòng',
+    hostPhoneDescription: 'Quét mã này bằng điện thoại của bạn để điều khiển phòng. Đừng chia sẻ mã này.',
+    joinAsScreen: 'Hoặc nhập mã của một phòng đã có để dùng TV này làm màn hình phụ',
+    guestScreen: 'Màn hình khách',
+    screenNeedsNoPin: 'Phòng này có mã PIN nên không thể thêm màn hình phụ',
+    guestScreenDescription: 'TV này phát theo phòng; chỉ chủ phòng mới tạm dừng hoặc bỏ qua bài hát',
     
     // Mobile Page
     joinKaraoke: 'Tham Gia Karaoke',
@@ -47,6 +65,76 @@ export const translations = {
     removedFromQueue: 'Đã Xóa Khỏi Hàng Chờ',
     failedToRemove: 'Xóa Thất Bại',
     couldNotRemove: 'Không thể xóa bài hát khỏi hàng chờ',
+    failedToMove: 'Di Chuyển Thất Bại',
+    couldNotMove: 'Không thể thay đổi thứ tự bài hát',
+    playNext: 'Phát tiếp theo',
+    dragToReorder: 'Kéo để sắp xếp',
+    yourName: 'Tên của bạn (không bắt buộc)',
+    roomPin: 'Mã PIN phòng',
+    host: 'Chủ phòng',
+    fairRotation: 'Xoay vòng công bằng',
+    fairRotationDescription: 'Mỗi người hát lần lượt một bài',
+    queueLimits: 'Giới hạn hàng chờ',
+    maxWaitingPerSinger: 'Số bài chờ tối đa mỗi người',
+    noLimit: 'Không giới hạn',
+    addCooldown: 'Khoảng cách giữa hai lần thêm bài',
+    noCooldown: 'Không',
+    duplicateSongs: 'Bài trùng',
+    duplicateAllow: 'Cho phép',
+    duplicateWarn: 'Cảnh báo',
+    duplicateReject: 'Từ chối',
+    duplicateAllowAfter: 'Cho phép sau',
+    minutesShort: 'phút',
+    secondsShort: 'giây',
+    songAlreadyQueued: 'Bài này đã có trong hàng chờ',
+    singerLimitReached: 'Bạn đã có {limit} bài đang chờ',
+    songPlayedRecently: 'Bài này vừa được hát, thử lại sau {minutes} phút',
+    addCooldownActive: 'Vui lòng đợi {seconds} giây trước khi thêm bài khác',
+    requireApproval: 'Duyệt bài hát',
+    requireApprovalDescription: 'Bài của khách chờ chủ phòng duyệt trước khi vào hàng chờ',
+    pendingApproval: 'Chờ duyệt',
+    approveSong: 'Duyệt',
+    rejectSong: 'Từ chối',
+    sentForApproval: 'Đã gửi cho chủ phòng duyệt',
+    songApproved: 'Bài của bạn đã được duyệt',
+    songRejected: 'Bài của bạn bị từ chối',
+    voteSkip: 'Bình chọn bỏ qua',
+    voteSkipDescription: 'Khách bình chọn để bỏ qua bài đang hát',
+    voteSkipThreshold: 'Tỉ lệ điện thoại cần bình chọn',
+    skipVotes: 'Phiếu bỏ qua',
+    reactionScoreBonus: 'Cộng điểm từ khán giả',
+    reactionScoreBonusDescription: 'Lượt thả cảm xúc cộng tối đa 10 điểm vào điểm hát',
+    audienceBonus: 'Khán giả',
+    chatTab: 'Chat',
+    noChatMessages: 'Chưa có tin nhắn nào',
+    chatPlaceholder: 'Gửi lời nhắn cho cả phòng...',
+    chatMuted: 'Chủ phòng đã tắt chat của bạn',
+    chatTooFast: 'Bạn gửi tin nhắn quá nhanh',
+    muteDevice: 'Tắt chat',
+    unmuteDevice: 'Bật chat',
+    historyTab: 'Đã hát',
+    noHistory: 'Chưa có bài nào được hát tối nay',
+    skipped: 'Đã bỏ qua',
+    singAgain: 'Hát lại',
+    localLibrary: 'Thư viện',
+    playbackError: 'Không phát được bài này, chuyển sang bài tiếp theo',
+    songPosition: 'Vị trí bài hát',
+    restartSong: 'Hát lại từ đầu',
+    screens: 'Màn hình',
+    screensDescription: 'Màn hình chính quyết định khi nào bài hát kết thúc, các màn hình khác phát theo',
+    primaryScreen: 'Màn hình chính',
+    makePrimary: 'Đặt làm chính',
+    closeRoom: 'Đóng phòng',
+    closeRoomDescription: 'Kết thúc buổi hát cho mọi người và xóa hàng chờ',
+    closeRoomConfirm: 'Đóng phòng này?',
+    closeRoomWarning: 'Mọi thiết bị sẽ bị ngắt kết nối. Không thể hoàn tác.',
+    cancel: 'Hủy',
+    roomClosed: 'Phòng Đã Đóng',
+    roomClosedByHost: 'Chủ phòng đã kết thúc buổi hát',
+    roomExpired: 'Phòng đã bị xóa vì không hoạt động',
+    rejoiningRoom: 'Đang vào lại phòng...',
+    notRoomHost: 'Mã chủ phòng trong liên kết không đúng',
+    couldNotRejoinRoom: 'Không kết nối được máy chủ, hãy tải lại trang',
     notSupported: 'Không Hỗ Trợ',
     voiceNotSupported: 'Tìm kiếm bằng giọng nói không được hỗ trợ trên trình duyệt này',
     voiceSearchError: 'Lỗi Tìm Kiếm Giọng Nói',
@@ -80,8 +168,26 @@ export const translations = {
     error: 'Error',
     failedToCreateRoom: 'Failed to create room',
     greatPerformance: 'Great Performance!',
+    scoringMic: 'Scoring mic',
+    micUnavailable: 'The microphone is not available for scoring',
+    pitchStability: 'Pitch',
+    voiceActivity: 'Singing time',
+    dynamics: 'Dynamics',
+    leaderboard: 'Leaderboard',
+    topSingers: 'Top singers',
+    topSongs: 'Top songs',
+    noScoresYet: 'No scores yet tonight',
+    averageScore: 'average',
+    close: 'Close',
     playing: 'Playing',
     unknownSong: 'Unknown Song',
+    roomPinOptional: 'Room PIN (optional)',
+    hostPhone: 'Host phone',
+    hostPhoneDescription: 'Scan this with your own phone to control the room. Don\'t share it.',
+    joinAsScreen: 'Or enter the code of an existing room to use this TV as another screen',
+    guestScreen: 'Guest screen',
+    screenNeedsNoPin: 'This room has a PIN, so it can\'t take another screen',
+    guestScreenDescription: 'This TV plays along with the room; only the host can pause or skip songs',
     
     // Mobile Page
     joinKaraoke: 'Join Karaoke',
@@ -107,6 +213,76 @@ export const translations = {
     removedFromQueue: 'Removed from Queue',
     failedToRemove: 'Failed to Remove',
     couldNotRemove: 'Could not remove song from queue',
+    failedToMove: 'Failed to Move',
+    couldNotMove: 'Could not reorder the song',
+    playNext: 'Play next',
+    dragToReorder: 'Drag to reorder',
+    yourName: 'Your name (optional)',
+    roomPin: 'Room PIN',
+    host: 'Host',
+    fairRotation: 'Fair rotation',
+    fairRotationDescription: 'Singers take turns, one song each',
+    queueLimits: 'Queue limits',
+    maxWaitingPerSinger: 'Max waiting songs per singer',
+    noLimit: 'No limit',
+    addCooldown: 'Time between additions',
+    noCooldown: 'None',
+    duplicateSongs: 'Duplicate songs',
+    duplicateAllow: 'Allow',
+    duplicateWarn: 'Warn',
+    duplicateReject: 'Reject',
+    duplicateAllowAfter: 'Allow after',
+    minutesShort: 'min',
+    secondsShort: 's',
+    songAlreadyQueued: 'This song is already in the queue',
+    singerLimitReached: 'You already have {limit} songs waiting',
+    songPlayedRecently: 'This song was sung recently, try again in {minutes} min',
+    addCooldownActive: 'Wait {seconds}s before adding another song',
+    requireApproval: 'Approve requests',
+    requireApprovalDescription: 'Guests\' songs wait for your approval before joining the queue',
+    pendingApproval: 'Awaiting approval',
+    approveSong: 'Approve',
+    rejectSong: 'Reject',
+    sentForApproval: 'Sent to the host for approval',
+    songApproved: 'Your song was approved',
+    songRejected: 'Your song was declined',
+    voteSkip: 'Vote to skip',
+    voteSkipDescription: 'Guests can vote the playing song off',
+    voteSkipThreshold: 'Share of phones needed',
+    skipVotes: 'Skip votes',
+    reactionScoreBonus: 'Audience bonus',
+    reactionScoreBonusDescription: 'Reactions add up to 10 points to the score',
+    audienceBonus: 'Audience',
+    chatTab: 'Chat',
+    noChatMessages: 'No messages yet',
+    chatPlaceholder: 'Send a shout-out to the room...',
+    chatMuted: 'The host muted you in the chat',
+    chatTooFast: 'You are sending messages too fast',
+    muteDevice: 'Mute',
+    unmuteDevice: 'Unmute',
+    historyTab: 'History',
+    noHistory: 'Nothing has been sung tonight yet',
+    skipped: 'Skipped',
+    singAgain: 'Sing again',
+    localLibrary: 'Local',
+    playbackError: 'Could not play this song, skipping to the next one',
+    songPosition: 'Song position',
+    restartSong: 'Restart song',
+    screens: 'Screens',
+    screensDescription: 'The primary screen decides when a song ends; the others follow it',
+    primaryScreen: 'Primary screen',
+    makePrimary: 'Make primary',
+    closeRoom: 'Close room',
+    closeRoomDescription: 'End the session for everyone and delete the queue',
+    closeRoomConfirm: 'Close this room?',
+    closeRoomWarning: 'Every device will be disconnected. This cannot be undone.',
+    cancel: 'Cancel',
+    roomClosed: 'Room Closed',
+    roomClosedByHost: 'The host ended the session',
+    roomExpired: 'The room was deleted after being idle',
+    rejoiningRoom: 'Rejoining room...',
+    notRoomHost: 'The host secret in this link does not match the room',
+    couldNotRejoinRoom: 'Could not reach the server, reload the page to try again',
     notSupported: 'Not Supported',
     voiceNotSupported: 'Voice search is not supported in this browser',
     voiceSearchError: 'Voice Search Error',
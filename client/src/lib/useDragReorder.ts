@@ -0,0 +1,76 @@
+import { useState, useRef, useCallback, type PointerEvent } from 'react';
+
+interface DragState {
+  id: string;
+  overIndex: number;
+  // Vertical midpoints of the other items, measured when the drag started
+  midpoints: number[];
+}
+
+// Pointer-based list reordering that works with touch as well as a mouse.
+// Items are previewed in their new order while dragging and onReorder is
+// called once on drop with the item id and its index in the new order.
+export function useDragReorder<T extends { id: string }>(
+  items: T[],
+  onReorder: (id: string, toIndex: number) => void,
+) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const elementsRef = useRef(new Map<string, HTMLElement>());
+
+  const registerItem = useCallback((id: string) => (element: HTMLElement | null) => {
+    if (element) {
+      elementsRef.current.set(id, element);
+    } else {
+      elementsRef.current.delete(id);
+    }
+  }, []);
+
+  const getHandleProps = (id: string) => ({
+    onPointerDown: (event: PointerEvent<HTMLElement>) => {
+      const index = items.findIndex(item => item.id === id);
+      if (index === -1) return;
+
+      event.currentTarget.setPointerCapture(event.pointerId);
+      const midpoints = items
+        .filter(item => item.id !== id)
+        .map(item => {
+          const rect = elementsRef.current.get(item.id)?.getBoundingClientRect();
+          return rect ? rect.top + rect.height / 2 : 0;
+        });
+      setDrag({ id, overIndex: index, midpoints });
+    },
+    onPointerMove: (event: PointerEvent<HTMLElement>) => {
+      if (!drag || drag.id !== id) return;
+      const overIndex = drag.midpoints.filter(midpoint => midpoint < event.clientY).length;
+      if (overIndex !== drag.overIndex) {
+        setDrag({ ...drag, overIndex });
+      }
+    },
+    onPointerUp: () => {
+      if (!drag || drag.id !== id) return;
+      const fromIndex = items.findIndex(item => item.id === id);
+      setDrag(null);
+      if (fromIndex !== -1 && fromIndex !== drag.overIndex) {
+        onReorder(id, drag.overIndex);
+      }
+    },
+    onPointerCancel: () => setDrag(null),
+    style: { touchAction: 'none' as const },
+  });
+
+  let orderedItems = items;
+  if (drag) {
+    const dragged = items.find(item => item.id === drag.id);
+    if (dragged) {
+      orderedItems = items.filter(item => item.id !== drag.id);
+      orderedItems.splice(drag.overIndex, 0, dragged);
+    }
+  }
+
+  return {
+    orderedItems,
+    draggingId: drag?.id ?? null,
+    registerItem,
+    getHandleProps,
+  };
+}
@@ -0,0 +1,85 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { detectPitch, rootMeanSquare, scorePerformance, type VocalFrame, type VocalScore } from './vocalScoring';
+
+export type MicState = 'off' | 'starting' | 'listening' | 'unavailable';
+
+// How often the microphone is sampled while a song plays
+const FRAME_INTERVAL_MS = 50;
+
+interface MicSession {
+  context: AudioContext;
+  stream: MediaStream;
+  timer: number;
+}
+
+// Listens to the microphone and collects frames while `active` is true.
+// Frames are kept per song: changing `songKey` starts a fresh recording, and
+// finishSong() scores what was recorded so far.
+export function useVocalScoring(active: boolean, songKey: string | null) {
+  const [micState, setMicState] = useState<MicState>('off');
+  const sessionRef = useRef<MicSession | null>(null);
+  const framesRef = useRef<VocalFrame[]>([]);
+  const activeRef = useRef(active);
+  activeRef.current = active;
+
+  useEffect(() => {
+    framesRef.current = [];
+  }, [songKey]);
+
+  const disable = useCallback(() => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    if (session) {
+      window.clearInterval(session.timer);
+      session.stream.getTracks().forEach(track => track.stop());
+      session.context.close().catch(() => {});
+    }
+    setMicState('off');
+  }, []);
+
+  const enable = useCallback(async () => {
+    if (sessionRef.current) return;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setMicState('unavailable');
+      return;
+    }
+
+    setMicState('starting');
+    try {
+      // Echo cancellation keeps the TV speakers from being scored as singing
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: false },
+      });
+      const context = new AudioContext();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 2048;
+      context.createMediaStreamSource(stream).connect(analyser);
+
+      const samples = new Float32Array(analyser.fftSize);
+      const timer = window.setInterval(() => {
+        if (!activeRef.current) return;
+        analyser.getFloatTimeDomainData(samples);
+        framesRef.current.push({
+          rms: rootMeanSquare(samples),
+          pitch: detectPitch(samples, context.sampleRate),
+        });
+      }, FRAME_INTERVAL_MS);
+
+      sessionRef.current = { context, stream, timer };
+      setMicState('listening');
+    } catch (error) {
+      console.warn('Microphone unavailable for scoring', error);
+      setMicState('unavailable');
+    }
+  }, []);
+
+  const finishSong = useCallback((): VocalScore | null => {
+    const result = sessionRef.current ? scorePerformance(framesRef.current) : null;
+    framesRef.current = [];
+    return result;
+  }, []);
+
+  useEffect(() => disable, [disable]);
+
+  return { micState, enable, disable, finishSong };
+}
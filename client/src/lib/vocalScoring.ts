@@ -0,0 +1,143 @@
+// Pitch detection and performance scoring for the karaoke score overlay.
+// Everything here is pure so it works on frames from any microphone source;
+// useVocalScoring feeds it from the Web Audio API.
+
+// One analysis window of microphone audio
+export interface VocalFrame {
+  // Root-mean-square level of the window, 0..1
+  rms: number;
+  // Detected fundamental in Hz, null when the window isn't voiced
+  pitch: number | null;
+}
+
+export interface VocalScore {
+  // 0..100, shown in the score overlay and stored with the play history
+  score: number;
+  // Each component is 0..1
+  pitchStability: number;
+  voiceActivity: number;
+  dynamics: number;
+}
+
+// Quieter windows are treated as silence (room noise, instrumental breaks)
+export const VOICE_RMS_THRESHOLD = 0.02;
+
+// Sung notes live roughly between a low bass E and a soprano C6
+const MIN_PITCH_HZ = 80;
+const MAX_PITCH_HZ = 1050;
+// Normalised autocorrelation needed before a lag counts as a pitch
+const MIN_CLARITY = 0.8;
+
+// Share of the song someone is expected to be singing; instrumental intros
+// and solos mean a perfect performance is well under 100% voiced
+const EXPECTED_VOICE_ACTIVITY = 0.6;
+// Jumps under this many semitones between windows count as a held or
+// gliding note rather than wobble
+const STABLE_STEP_SEMITONES = 1;
+// Level spread (standard deviation in dB) of an expressive performance
+const EXPRESSIVE_SPREAD_DB = 6;
+
+const WEIGHTS = { pitchStability: 0.45, voiceActivity: 0.35, dynamics: 0.2 };
+
+export function rootMeanSquare(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+// Finds the fundamental frequency with normalised autocorrelation. Returns
+// null for silence, noise, or anything outside the singing range.
+export function detectPitch(samples: Float32Array, sampleRate: number): number | null {
+  if (rootMeanSquare(samples) < VOICE_RMS_THRESHOLD) return null;
+
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.min(Math.ceil(sampleRate / MIN_PITCH_HZ), samples.length - 1);
+
+  const correlationAt = (lag: number) => {
+    let sum = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = 0; i + lag < samples.length; i++) {
+      sum += samples[i] * samples[i + lag];
+      energyA += samples[i] * samples[i];
+      energyB += samples[i + lag] * samples[i + lag];
+    }
+    const energy = Math.sqrt(energyA * energyB);
+    return energy === 0 ? 0 : sum / energy;
+  };
+
+  const correlations = new Float32Array(maxLag + 2);
+  for (let lag = minLag; lag <= maxLag + 1 && lag < samples.length; lag++) {
+    correlations[lag] = correlationAt(lag);
+  }
+
+  // Take the first peak that is nearly as strong as the best one, so
+  // octave-down lags with similar correlation don't win
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    best = Math.max(best, correlations[lag]);
+  }
+  if (best < MIN_CLARITY) return null;
+
+  for (let lag = minLag + 1; lag < maxLag; lag++) {
+    const value = correlations[lag];
+    const isPeak = value >= correlations[lag - 1] && value >= correlations[lag + 1];
+    if (isPeak && value >= best * 0.95) {
+      // Parabolic interpolation around the peak for sub-sample accuracy
+      const left = correlations[lag - 1];
+      const right = correlations[lag + 1];
+      const curvature = left - 2 * value + right;
+      const offset = curvature === 0 ? 0 : (left - right) / (2 * curvature);
+      return sampleRate / (lag + offset);
+    }
+  }
+  return null;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+// Scores a whole song from its frames. Returns null when nothing was
+// recorded, e.g. the microphone was off for the song.
+export function scorePerformance(frames: VocalFrame[]): VocalScore | null {
+  if (frames.length === 0) return null;
+
+  const voiced = frames.filter(frame => frame.rms >= VOICE_RMS_THRESHOLD);
+  const voiceActivity = Math.min(1, voiced.length / frames.length / EXPECTED_VOICE_ACTIVITY);
+
+  // Compare each pitched frame with the one before it; breaks in the
+  // voicing start a new phrase rather than counting as a jump
+  let steps = 0;
+  let stableSteps = 0;
+  for (let i = 1; i < frames.length; i++) {
+    const previous = frames[i - 1].pitch;
+    const current = frames[i].pitch;
+    if (previous === null || current === null) continue;
+    steps++;
+    if (Math.abs(12 * Math.log2(current / previous)) < STABLE_STEP_SEMITONES) {
+      stableSteps++;
+    }
+  }
+  const pitchStability = steps === 0 ? 0 : stableSteps / steps;
+
+  const levelsDb = voiced.map(frame => 20 * Math.log10(frame.rms));
+  const dynamics = Math.min(1, standardDeviation(levelsDb) / EXPRESSIVE_SPREAD_DB);
+
+  const weighted =
+    WEIGHTS.pitchStability * pitchStability +
+    WEIGHTS.voiceActivity * voiceActivity +
+    WEIGHTS.dynamics * dynamics;
+
+  return {
+    score: Math.round(Math.min(100, Math.max(0, weighted * 100))),
+    pitchStability,
+    voiceActivity,
+    dynamics,
+  };
+}
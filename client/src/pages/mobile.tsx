@@ -5,11 +5,39 @@ import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Search, Mic, Plus, Music, ListMusic, Loader2, Trash2 } from "lucide-react";
-import type { Room, QueueItem, VideoSearchResult } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { Search, Mic, Plus, Music, ListMusic, Loader2, Trash2, GripVertical, ChevronsUp, Play, Pause, SkipForward, ThumbsDown, Crown, History, MessageCircle, RotateCcw, Star, HardDrive, Monitor } from "lucide-react";
+import { parseRoomSettings, addToQueueResponseSchema, queueAddRejectionSchema, reactionSchema, type QueueAddRejection, type ChatMessage, type PublicRoom, type DeviceRole, type QueueItem, type VideoSearchResult, type MoveQueueItem, type RoomSettings, type PlayHistoryEntry, type Leaderboard, type ConnectedDevice } from "@shared/schema";
+import { getPlayOrder } from "@shared/queue";
+import { REACTION_EMOJI } from "@shared/reactions";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 import { useLanguage } from "@/lib/useLanguage";
+import { useDragReorder } from "@/lib/useDragReorder";
+import { parseServerMessage, reconnectDelay } from "@/lib/roomSocket";
+import { searchSongs, isLocalSong } from "@/lib/songSearch";
+import { LeaderboardView } from "@/components/LeaderboardView";
+import { PlaybackProgress } from "@/components/PlaybackProgress";
+import { CloseRoomButton } from "@/components/CloseRoomButton";
+import { QueueRulesSettings } from "@/components/QueueRulesSettings";
+import { PendingSongs } from "@/components/PendingSongs";
+import { ChatPanel } from "@/components/ChatPanel";
+
+const SINGER_NAME_KEY = 'karaoke-singer-name';
+// Chat messages a phone keeps; older ones scroll away
+const MAX_CHAT_MESSAGES = 100;
+
+// Host secrets arrive once via the TV's host QR code and are kept per room
+function hostSecretKey(code: string) {
+  return `karaoke-host-${code}`;
+}
+
+// Lets a phone that lost its connection rejoin as the same device, keeping
+// its name and its songs in the queue
+function sessionTokenKey(code: string) {
+  return `karaoke-session-${code}`;
+}
 
 declare global {
   interface Window {
@@ -22,8 +50,21 @@ export default function MobilePage() {
   const { toast } = useToast();
   const { language, toggleLanguage, t } = useLanguage();
   const [roomCode, setRoomCode] = useState("");
-  const [room, setRoom] = useState<Room | null>(null);
+  const [singerName, setSingerName] = useState(() => localStorage.getItem(SINGER_NAME_KEY) || "");
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [skipTally, setSkipTally] = useState<{ songId: string; votes: number; needed: number } | null>(null);
+  const [votedSongId, setVotedSongId] = useState<string | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [role, setRole] = useState<DeviceRole>("guest");
+  const [sessionToken, setSessionToken] = useState<string | null>(null);
+  const [pin, setPin] = useState("");
+  const [pinRequired, setPinRequired] = useState(false);
+  const [room, setRoom] = useState<PublicRoom | null>(null);
   const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [history, setHistory] = useState<PlayHistoryEntry[]>([]);
+  const [devices, setDevices] = useState<ConnectedDevice[]>([]);
+  const [playback, setPlayback] = useState({ position: 0, duration: null as number | null, receivedAt: Date.now() });
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<VideoSearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
@@ -36,6 +77,12 @@ export default function MobilePage() {
   const wsRef = useRef<WebSocket | null>(null);
   const recognitionRef = useRef<SpeechRecognition | null>(null);
   const autoJoinAttempted = useRef(false);
+  const hasJoinedRef = useRef(false);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const unmountedRef = useRef(false);
+  // For the socket handler, which would otherwise see a stale deviceId
+  const deviceIdRef = useRef<string | null>(null);
 
   // Auto-fill room code from URL query parameter (from QR code scan)
   useEffect(() => {
@@ -44,6 +91,13 @@ export default function MobilePage() {
     if (roomFromUrl && roomFromUrl.length === 6 && !autoJoinAttempted.current) {
       setRoomCode(roomFromUrl.toUpperCase());
       autoJoinAttempted.current = true;
+
+      const hostSecret = urlParams.get('host');
+      if (hostSecret) {
+        localStorage.setItem(hostSecretKey(roomFromUrl.toUpperCase()), hostSecret);
+        // Keep the secret out of the address bar and browser history
+        window.history.replaceState(null, "", `${window.location.pathname}?room=${roomFromUrl.toUpperCase()}`);
+      }
     }
   }, []);
 
@@ -53,23 +107,76 @@ export default function MobilePage() {
     wsRef.current = ws;
 
     ws.onopen = () => {
-      const guestName = `Guest ${Math.floor(Math.random() * 1000)}`;
-      ws.send(JSON.stringify({ type: "join_room", roomCode: code, deviceName: guestName, deviceType: "mobile" }));
+      hasJoinedRef.current = false;
+      const deviceName = singerName.trim() || `Guest ${Math.floor(Math.random() * 1000)}`;
+      ws.send(JSON.stringify({
+        type: "join_room",
+        roomCode: code,
+        deviceName,
+        deviceType: "mobile",
+        pin: pin || undefined,
+        hostSecret: localStorage.getItem(hostSecretKey(code)) ?? undefined,
+        sessionToken: localStorage.getItem(sessionTokenKey(code)) ?? undefined,
+      }));
     };
 
     ws.onmessage = (event) => {
-      const message = JSON.parse(event.data);
+      const message = parseServerMessage(event.data);
+      if (!message) return;
 
       switch (message.type) {
         case "room_state":
+          hasJoinedRef.current = true;
+          reconnectAttemptRef.current = 0;
+          if (message.sessionToken) {
+            localStorage.setItem(sessionTokenKey(message.room.code), message.sessionToken);
+          }
           setRoom(message.room);
           setQueue(message.queue);
+          setDeviceId(message.deviceId ?? null);
+          deviceIdRef.current = message.deviceId ?? null;
+          setRole(message.role ?? "guest");
+          setSessionToken(message.sessionToken ?? null);
+          setDevices(message.devices || []);
+          setPlayback({ position: message.room.playbackPosition, duration: message.room.playbackDuration, receivedAt: Date.now() });
+          break;
+
+        case "playback_state":
+          setRoom(prev => prev && { ...prev, isPlaying: message.isPlaying });
+          break;
+
+        case "playback_position":
+          setPlayback({ position: message.position, duration: message.duration, receivedAt: Date.now() });
+          break;
+
+        case "settings_updated":
+          setRoom(prev => prev && { ...prev, settings: message.settings });
           break;
 
         case "queue_updated":
           setQueue(message.queue);
           break;
 
+        case "history_added":
+          setHistory(prev => [message.entry, ...prev.filter(entry => entry.id !== message.entry.id)]);
+          break;
+
+        case "leaderboard_updated":
+          setLeaderboard(message.leaderboard);
+          break;
+
+        case "device_joined":
+          setDevices(prev => [...prev, message.device]);
+          break;
+
+        case "device_left":
+          setDevices(prev => prev.filter(device => device.id !== message.deviceId));
+          break;
+
+        case "devices_updated":
+          setDevices(message.devices);
+          break;
+
         case "song_added":
           toast({
             title: t.songAdded,
@@ -78,10 +185,58 @@ export default function MobilePage() {
           });
           break;
 
+        case "chat_message":
+          setChatMessages(prev => [...prev.slice(-(MAX_CHAT_MESSAGES - 1)), message.message]);
+          break;
+
+        case "skip_votes":
+          setSkipTally({ songId: message.songId, votes: message.votes, needed: message.needed });
+          break;
+
+        case "song_reviewed":
+          if (message.song.deviceId && message.song.deviceId === deviceIdRef.current) {
+            toast({
+              title: message.approved ? t.songApproved : t.songRejected,
+              description: message.song.title,
+              ...(message.approved
+                ? { className: "bg-success text-success-foreground border-success" }
+                : { variant: "destructive" as const }),
+            });
+          }
+          break;
+
+        case "room_closed":
+          // Keeps onclose from reconnecting when the server disconnects us
+          hasJoinedRef.current = false;
+          localStorage.removeItem(sessionTokenKey(code));
+          localStorage.removeItem(hostSecretKey(code));
+          setRoom(null);
+          setQueue([]);
+          setSessionToken(null);
+          toast({
+            title: t.roomClosed,
+            description: message.reason === "expired" ? t.roomExpired : t.roomClosedByHost,
+          });
+          break;
+
         case "error":
+          // An error before room_state means the server refused the join
+          if (!hasJoinedRef.current) {
+            setRoom(null);
+            ws.close();
+            if (message.code === "pin_required" || message.code === "incorrect_pin") {
+              setPinRequired(true);
+            }
+            if (message.code === "room_not_found") {
+              // Deleted while we were away
+              localStorage.removeItem(sessionTokenKey(code));
+            }
+          }
           toast({
             title: t.error,
-            description: message.message,
+            description: message.code === "muted" ? t.chatMuted
+              : message.code === "rate_limited" ? t.chatTooFast
+              : message.message,
             variant: "destructive",
           });
           break;
@@ -89,15 +244,34 @@ export default function MobilePage() {
     };
 
     ws.onclose = () => {
-      setTimeout(() => {
-        if (room?.code) {
-          connectWebSocket(room.code);
-        }
-      }, 3000);
+      // Not after a refused join, or once another socket replaced this one
+      if (unmountedRef.current || !hasJoinedRef.current || wsRef.current !== ws) return;
+      const delay = reconnectDelay(reconnectAttemptRef.current++);
+      reconnectTimerRef.current = setTimeout(() => connectWebSocket(code), delay);
     };
 
     return ws;
-  }, [room?.code, toast]);
+  }, [singerName, pin, toast]);
+
+  // Waits for the session: a room with a PIN only shows its history to
+  // devices that joined it
+  useEffect(() => {
+    if (!room?.code || !sessionToken) {
+      setHistory([]);
+      setLeaderboard(null);
+      return;
+    }
+
+    const headers = { "X-Device-Token": sessionToken };
+    fetch(`/api/rooms/${room.code}/history`, { headers })
+      .then(response => response.ok ? response.json() : [])
+      .then(setHistory)
+      .catch(() => setHistory([]));
+    fetch(`/api/rooms/${room.code}/leaderboard`, { headers })
+      .then(response => response.ok ? response.json() : null)
+      .then(setLeaderboard)
+      .catch(() => setLeaderboard(null));
+  }, [room?.code, sessionToken]);
 
   const handleJoinRoom = async () => {
     if (roomCode.length !== 6) {
@@ -109,16 +283,34 @@ export default function MobilePage() {
       return;
     }
 
+    localStorage.setItem(SINGER_NAME_KEY, singerName.trim());
     setIsJoining(true);
     try {
-      const response = await fetch(`/api/rooms/${roomCode.toUpperCase()}`);
+      const code = roomCode.toUpperCase();
+      const savedToken = localStorage.getItem(sessionTokenKey(code));
+      const response = await fetch(`/api/rooms/${code}`, {
+        headers: savedToken ? { "X-Device-Token": savedToken } : {},
+      });
+      // A room with a PIN shows nothing before the join: the host and anyone
+      // who typed the PIN go straight to the socket, which checks it
+      if (response.status === 403) {
+        if (!localStorage.getItem(hostSecretKey(code)) && !pin) {
+          setPinRequired(true);
+          return;
+        }
+        hasJoinedRef.current = false;
+        connectWebSocket(code);
+        return;
+      }
       if (!response.ok) {
         throw new Error("Room not found");
       }
       const data = await response.json();
+
+      hasJoinedRef.current = false;
       setRoom(data.room);
       setQueue(data.queue);
-      connectWebSocket(roomCode.toUpperCase());
+      connectWebSocket(code);
     } catch (error) {
       toast({
         title: t.roomNotFound,
@@ -130,14 +322,15 @@ export default function MobilePage() {
     }
   };
 
+  const sessionHeaders = (): Record<string, string> =>
+    sessionToken ? { "X-Device-Token": sessionToken } : {};
+
   const handleSearch = async () => {
     if (!searchQuery.trim()) return;
 
     setIsSearching(true);
     try {
-      const response = await fetch(`/api/youtube/search?q=${encodeURIComponent(searchQuery)}`);
-      const results = await response.json();
-      setSearchResults(results);
+      setSearchResults(await searchSongs(searchQuery));
     } catch (error) {
       toast({
         title: t.searchFailed,
@@ -154,22 +347,25 @@ export default function MobilePage() {
 
     setAddingVideoId(video.videoId);
     try {
-      await apiRequest("POST", `/api/rooms/${room.code}/queue`, {
+      const res = await apiRequest("POST", `/api/rooms/${room.code}/queue`, {
         videoId: video.videoId,
         title: video.title,
         thumbnail: video.thumbnail,
         channelTitle: video.channelTitle,
         duration: video.duration,
-      });
+        source: video.source,
+      }, sessionHeaders());
+      const added = addToQueueResponseSchema.safeParse(await res.json());
       toast({
-        title: t.addedToQueue,
-        description: video.title,
+        title: added.success && added.data.status === "pending" ? t.sentForApproval : t.addedToQueue,
+        description: added.success && added.data.duplicate ? `${video.title} · ${t.songAlreadyQueued}` : video.title,
         className: "bg-success text-success-foreground border-success",
       });
     } catch (error) {
+      const rejection = error instanceof ApiError ? queueAddRejectionSchema.safeParse(error.body) : null;
       toast({
         title: t.failedToAdd,
-        description: t.couldNotAdd,
+        description: rejection?.success ? describeQueueRejection(rejection.data) : t.couldNotAdd,
         variant: "destructive",
       });
     } finally {
@@ -177,12 +373,25 @@ export default function MobilePage() {
     }
   };
 
+  const describeQueueRejection = (rejection: QueueAddRejection) => {
+    switch (rejection.code) {
+      case "singer_limit_reached":
+        return t.singerLimitReached.replace("{limit}", String(rejection.limit));
+      case "duplicate_song":
+        return t.songAlreadyQueued;
+      case "played_recently":
+        return t.songPlayedRecently.replace("{minutes}", String(Math.ceil(rejection.retryAfterSeconds / 60)));
+      case "add_cooldown":
+        return t.addCooldownActive.replace("{seconds}", String(rejection.retryAfterSeconds));
+    }
+  };
+
   const handleRemoveFromQueue = async (itemId: string, title: string) => {
     if (!room) return;
 
     setRemovingItemId(itemId);
     try {
-      await apiRequest("DELETE", `/api/rooms/${room.code}/queue/${itemId}`);
+      await apiRequest("DELETE", `/api/rooms/${room.code}/queue/${itemId}`, undefined, sessionHeaders());
       toast({
         title: t.removedFromQueue,
         description: title,
@@ -198,6 +407,43 @@ export default function MobilePage() {
     }
   };
 
+  const handleMoveSong = async (itemId: string, move: MoveQueueItem) => {
+    if (!room) return;
+
+    // Show the new order right away; the server's queue_updated confirms it
+    const previousQueue = queue;
+    const toIndex = "playNext" in move ? 0 : move.toIndex;
+    setQueue((prev) => {
+      const item = prev.find((queueItem) => queueItem.id === itemId);
+      if (!item) return prev;
+      const playing = prev.filter((queueItem) => queueItem.status === "playing");
+      const rest = prev.filter((queueItem) => queueItem.status === "waiting" && queueItem.id !== itemId);
+      rest.splice(toIndex, 0, item);
+      const pending = prev.filter((queueItem) => queueItem.status === "pending");
+      return [...playing, ...rest, ...pending];
+    });
+
+    try {
+      await apiRequest("PATCH", `/api/rooms/${room.code}/queue/${itemId}`, move, sessionHeaders());
+    } catch (error) {
+      setQueue(previousQueue);
+      toast({
+        title: t.failedToMove,
+        description: t.couldNotMove,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const sendMessage = (message: object) => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
+    wsRef.current.send(JSON.stringify(message));
+  };
+
+  const handleUpdateSettings = (settings: Partial<RoomSettings>) => {
+    sendMessage({ type: "update_settings", settings });
+  };
+
   const startVoiceSearch = () => {
     const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
     
@@ -259,9 +505,7 @@ export default function MobilePage() {
 
     setIsSearching(true);
     try {
-      const response = await fetch(`/api/youtube/search?q=${encodeURIComponent(query)}`);
-      const results = await response.json();
-      setSearchResults(results);
+      setSearchResults(await searchSongs(query));
     } catch (error) {
       toast({
         title: t.searchFailed,
@@ -275,13 +519,37 @@ export default function MobilePage() {
 
   useEffect(() => {
     return () => {
+      unmountedRef.current = true;
+      if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
       wsRef.current?.close();
       recognitionRef.current?.stop();
     };
   }, []);
 
-  const allQueueSongs = queue;
+  const allQueueSongs = queue.filter((item) => item.status !== "pending");
   const waitingSongsCount = queue.filter((item) => item.status === "waiting").length;
+  const settings = parseRoomSettings(room?.settings);
+  const playingSongs = queue.filter((item) => item.status === "playing");
+  const queuedSongs = queue.filter((item) => item.status === "waiting");
+  const { orderedItems: orderedQueuedSongs, draggingId, registerItem, getHandleProps } = useDragReorder(
+    queuedSongs,
+    (itemId, toIndex) => handleMoveSong(itemId, { toIndex }),
+  );
+  const isHost = role === "host";
+  // The host reviews every request; guests follow their own
+  const pendingSongs = queue.filter((item) =>
+    item.status === "pending" && (isHost || (item.deviceId !== null && item.deviceId === deviceId)),
+  );
+  const playingSong = playingSongs[0];
+  // Tallies for a song that already left the stage are stale
+  const playingSkipTally = playingSong && skipTally?.songId === playingSong.id ? skipTally : null;
+  const tvs = devices.filter((device) => device.type === "tv");
+  // Fair rotation decides the order itself, so manual reordering is disabled
+  const canReorder = isHost && !settings.fairRotation;
+  const displayedQueue = [
+    ...playingSongs,
+    ...(canReorder ? orderedQueuedSongs : getPlayOrder(queue, settings)),
+  ];
 
   if (!room) {
     return (
@@ -302,6 +570,15 @@ export default function MobilePage() {
             {t.enterRoomCode}
           </p>
           <div className="space-y-4">
+            <Input
+              type="text"
+              placeholder={t.yourName}
+              value={singerName}
+              onChange={(e) => setSingerName(e.target.value.slice(0, 50))}
+              className="text-center h-12"
+              maxLength={50}
+              data-testid="input-singer-name"
+            />
             <Input
               type="text"
               placeholder="ABCDEF"
@@ -311,9 +588,20 @@ export default function MobilePage() {
               maxLength={6}
               data-testid="input-room-code"
             />
+            {pinRequired && (
+              <Input
+                type="password"
+                inputMode="numeric"
+                placeholder={t.roomPin}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 8))}
+                className="text-center text-xl tracking-widest h-12"
+                data-testid="input-room-pin"
+              />
+            )}
             <Button
               onClick={handleJoinRoom}
-              disabled={isJoining || roomCode.length !== 6}
+              disabled={isJoining || roomCode.length !== 6 || (pinRequired && pin.length < 4)}
               className="w-full h-12 text-lg"
               data-testid="button-join-room"
             >
@@ -351,6 +639,9 @@ export default function MobilePage() {
               {language === 'vi' ? 'VI' : 'EN'}
             </Button>
             <div className="flex items-center gap-2 bg-muted px-3 py-1.5 rounded-lg">
+              {isHost && (
+                <Crown className="w-4 h-4 text-primary" aria-label={t.host} data-testid="icon-host" />
+              )}
               <span className="text-sm text-muted-foreground">{t.room}</span>
               <span className="font-bold text-primary" data-testid="text-room-code">
                 {room.code}
@@ -390,10 +681,92 @@ export default function MobilePage() {
             {isSearching ? <Loader2 className="w-5 h-5 animate-spin" /> : t.search}
           </Button>
         </div>
+
+        {playingSong && (
+          <div className="mt-3 bg-muted rounded-lg p-2 space-y-1" data-testid="now-playing-panel">
+            <div className="flex items-center gap-2" data-testid="host-playback-controls">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate" data-testid="text-now-playing">{playingSong.title}</p>
+                <p className="text-xs text-muted-foreground">{t.nowPlaying}</p>
+              </div>
+              {isHost && (
+                <>
+                  <Button
+                    size="icon"
+                    variant="outline"
+                    onClick={() => sendMessage({ type: room.isPlaying ? "pause" : "play" })}
+                    className="h-9 w-9 shrink-0"
+                    data-testid="button-play-pause"
+                  >
+                    {room.isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="outline"
+                    onClick={() => sendMessage({ type: "skip_song", songId: playingSong.id })}
+                    className="h-9 w-9 shrink-0"
+                    data-testid="button-skip"
+                  >
+                    <SkipForward className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
+              {!isHost && settings.voteSkip && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setVotedSongId(playingSong.id);
+                    sendMessage({ type: "vote_skip", songId: playingSong.id });
+                  }}
+                  disabled={votedSongId === playingSong.id}
+                  aria-label={t.voteSkip}
+                  className="h-9 shrink-0"
+                  data-testid="button-vote-skip"
+                >
+                  <ThumbsDown className="w-4 h-4" />
+                  {playingSkipTally && (
+                    <span className="ml-1" data-testid="text-skip-votes">
+                      {playingSkipTally.votes}/{playingSkipTally.needed}
+                    </span>
+                  )}
+                </Button>
+              )}
+              {isHost && playingSkipTally && (
+                <span className="text-xs text-muted-foreground shrink-0" data-testid="text-skip-votes">
+                  {t.skipVotes} {playingSkipTally.votes}/{playingSkipTally.needed}
+                </span>
+              )}
+            </div>
+            <PlaybackProgress
+              position={playback.position}
+              receivedAt={playback.receivedAt}
+              duration={playback.duration}
+              isPlaying={!!room.isPlaying}
+              canSeek={isHost}
+              onSeek={(position) => sendMessage({ type: "seek", position })}
+              t={t}
+            />
+            <div className="flex justify-around" data-testid="reaction-bar">
+              {reactionSchema.options.map((reaction) => (
+                <Button
+                  key={reaction}
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => sendMessage({ type: "react", songId: playingSong.id, reaction })}
+                  className="h-9 text-xl"
+                  data-testid={`button-react-${reaction}`}
+                >
+                  {REACTION_EMOJI[reaction]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
       </header>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col">
-        <TabsList className="mx-4 mt-3 grid w-auto grid-cols-2">
+        <TabsList className="mx-4 mt-3 grid w-auto grid-cols-4">
           <TabsTrigger value="search" data-testid="tab-search">
             <Search className="w-4 h-4 mr-2" />
             {t.searchTab}
@@ -402,6 +775,14 @@ export default function MobilePage() {
             <ListMusic className="w-4 h-4 mr-2" />
             {t.queue} ({allQueueSongs.length})
           </TabsTrigger>
+          <TabsTrigger value="history" data-testid="tab-history">
+            <History className="w-4 h-4 mr-2" />
+            {t.historyTab}
+          </TabsTrigger>
+          <TabsTrigger value="chat" data-testid="tab-chat">
+            <MessageCircle className="w-4 h-4 mr-2" />
+            {t.chatTab}
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="search" className="flex-1 mt-0">
@@ -445,6 +826,15 @@ export default function MobilePage() {
                       <p className="text-xs text-muted-foreground mt-1 truncate">
                         {video.channelTitle}
                       </p>
+                      {isLocalSong(video) && (
+                        <span
+                          className="inline-flex items-center gap-1 text-xs bg-muted px-1.5 py-0.5 rounded mt-1"
+                          data-testid={`badge-local-${video.videoId}`}
+                        >
+                          <HardDrive className="w-3 h-3" />
+                          {t.localLibrary}
+                        </span>
+                      )}
                       {video.duration && (
                         <p className="text-xs text-muted-foreground">
                           {video.duration}
@@ -474,6 +864,132 @@ export default function MobilePage() {
         <TabsContent value="queue" className="flex-1 mt-0">
           <ScrollArea className="h-[calc(100vh-200px)]">
             <div className="p-4 space-y-3">
+              {isHost && (
+                <label className="flex items-center justify-between gap-3 text-sm" data-testid="setting-fair-rotation">
+                  <span>
+                    <span className="font-medium block">{t.fairRotation}</span>
+                    <span className="text-xs text-muted-foreground">{t.fairRotationDescription}</span>
+                  </span>
+                  <Switch
+                    checked={settings.fairRotation}
+                    onCheckedChange={(checked) => handleUpdateSettings({ fairRotation: checked })}
+                    data-testid="switch-fair-rotation"
+                  />
+                </label>
+              )}
+              {isHost && (
+                <label className="flex items-center justify-between gap-3 text-sm" data-testid="setting-require-approval">
+                  <span>
+                    <span className="font-medium block">{t.requireApproval}</span>
+                    <span className="text-xs text-muted-foreground">{t.requireApprovalDescription}</span>
+                  </span>
+                  <Switch
+                    checked={settings.requireApproval}
+                    onCheckedChange={(checked) => handleUpdateSettings({ requireApproval: checked })}
+                    data-testid="switch-require-approval"
+                  />
+                </label>
+              )}
+              {isHost && (
+                <div className="space-y-2 text-sm" data-testid="setting-vote-skip">
+                  <label className="flex items-center justify-between gap-3">
+                    <span>
+                      <span className="font-medium block">{t.voteSkip}</span>
+                      <span className="text-xs text-muted-foreground">{t.voteSkipDescription}</span>
+                    </span>
+                    <Switch
+                      checked={settings.voteSkip}
+                      onCheckedChange={(checked) => handleUpdateSettings({ voteSkip: checked })}
+                      data-testid="switch-vote-skip"
+                    />
+                  </label>
+                  {settings.voteSkip && (
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="text-muted-foreground">{t.voteSkipThreshold}</span>
+                      <Select
+                        value={String(settings.voteSkipThreshold)}
+                        onValueChange={(value) => handleUpdateSettings({ voteSkipThreshold: Number(value) })}
+                      >
+                        <SelectTrigger className="h-8 w-24" data-testid="select-vote-skip-threshold">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Array.from(new Set([0.25, 0.5, 0.75, 1, settings.voteSkipThreshold])).sort((a, b) => a - b).map((share) => (
+                            <SelectItem key={share} value={String(share)}>{Math.round(share * 100)}%</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+              )}
+              {isHost && (
+                <label className="flex items-center justify-between gap-3 text-sm" data-testid="setting-reaction-bonus">
+                  <span>
+                    <span className="font-medium block">{t.reactionScoreBonus}</span>
+                    <span className="text-xs text-muted-foreground">{t.reactionScoreBonusDescription}</span>
+                  </span>
+                  <Switch
+                    checked={settings.reactionScoreBonus}
+                    onCheckedChange={(checked) => handleUpdateSettings({ reactionScoreBonus: checked })}
+                    data-testid="switch-reaction-bonus"
+                  />
+                </label>
+              )}
+              {isHost && (
+                <QueueRulesSettings settings={settings} onChange={handleUpdateSettings} t={t} />
+              )}
+              {isHost && tvs.length > 1 && (
+                <div className="space-y-2 text-sm" data-testid="setting-primary-tv">
+                  <span>
+                    <span className="font-medium block">{t.screens}</span>
+                    <span className="text-xs text-muted-foreground">{t.screensDescription}</span>
+                  </span>
+                  {tvs.map((tv) => (
+                    <div key={tv.id} className="flex items-center gap-2" data-testid={`tv-${tv.id}`}>
+                      <Monitor className="w-4 h-4 text-muted-foreground shrink-0" />
+                      <span className="flex-1 min-w-0 truncate">
+                        {tv.name}
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {new Date(tv.joinedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        </span>
+                      </span>
+                      {tv.primary ? (
+                        <span className="text-xs bg-primary text-primary-foreground px-1.5 py-0.5 rounded">{t.primaryScreen}</span>
+                      ) : tv.role !== 'host' ? (
+                        <span className="text-xs text-muted-foreground" title={t.guestScreenDescription}>{t.guestScreen}</span>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => sendMessage({ type: "set_primary_tv", deviceId: tv.id })}
+                          className="h-7"
+                          data-testid={`button-make-primary-${tv.id}`}
+                        >
+                          {t.makePrimary}
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {isHost && (
+                <div className="flex items-center justify-between gap-3 text-sm" data-testid="setting-close-room">
+                  <span>
+                    <span className="font-medium block">{t.closeRoom}</span>
+                    <span className="text-xs text-muted-foreground">{t.closeRoomDescription}</span>
+                  </span>
+                  <CloseRoomButton onConfirm={() => sendMessage({ type: "close_room" })} t={t} />
+                </div>
+              )}
+              <PendingSongs
+                songs={pendingSongs}
+                isHost={isHost}
+                onApprove={(song) => sendMessage({ type: "approve_song", songId: song.id })}
+                onReject={(song) => sendMessage({ type: "reject_song", songId: song.id })}
+                onRemove={(song) => handleRemoveFromQueue(song.id, song.title)}
+                t={t}
+              />
               {allQueueSongs.length === 0 ? (
                 <div className="text-center py-12 text-muted-foreground">
                   <ListMusic className="w-12 h-12 mx-auto mb-3 opacity-50" />
@@ -481,13 +997,24 @@ export default function MobilePage() {
                   <p className="text-sm mt-1">{t.searchAddToStart}</p>
                 </div>
               ) : (
-                allQueueSongs.map((item, index) => (
+                displayedQueue.map((item, index) => (
                   <Card
                     key={item.id}
-                    className={`p-3 ${item.status === 'playing' ? 'border-primary border-2' : ''}`}
+                    ref={item.status !== 'playing' ? registerItem(item.id) : undefined}
+                    className={`p-3 ${item.status === 'playing' ? 'border-primary border-2' : ''} ${draggingId === item.id ? 'opacity-60 shadow-lg' : ''}`}
                     data-testid={`card-queue-item-${item.id}`}
                   >
                     <div className="flex gap-2 items-start">
+                      {canReorder && item.status !== 'playing' && (
+                        <div
+                          {...getHandleProps(item.id)}
+                          className="shrink-0 mt-1 cursor-grab text-muted-foreground"
+                          aria-label={t.dragToReorder}
+                          data-testid={`handle-reorder-${item.id}`}
+                        >
+                          <GripVertical className="w-5 h-5" />
+                        </div>
+                      )}
                       <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold shrink-0 mt-1 ${item.status === 'playing' ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'}`}>
                         {item.status === 'playing' ? (
                           <Music className="w-3 h-3" />
@@ -518,23 +1045,137 @@ export default function MobilePage() {
                               {item.duration}
                             </span>
                           )}
+                          {item.singerName && (
+                            <span
+                              className={`flex items-center gap-1 text-xs ${item.deviceId && item.deviceId === deviceId ? 'text-primary font-medium' : 'text-muted-foreground'}`}
+                              data-testid={`text-queue-singer-${item.id}`}
+                            >
+                              <Mic className="w-3 h-3" />
+                              {item.singerName}
+                            </span>
+                          )}
                         </div>
                       </div>
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        onClick={() => handleRemoveFromQueue(item.id, item.title)}
-                        disabled={removingItemId === item.id}
-                        data-testid={`button-remove-${item.id}`}
-                        className="shrink-0 text-muted-foreground hover:text-destructive h-8 w-8"
-                      >
-                        {removingItemId === item.id ? (
-                          <Loader2 className="w-4 h-4 animate-spin" />
-                        ) : (
-                          <Trash2 className="w-4 h-4" />
+                      {canReorder && item.status !== 'playing' && index > playingSongs.length && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleMoveSong(item.id, { playNext: true })}
+                          aria-label={t.playNext}
+                          data-testid={`button-play-next-${item.id}`}
+                          className="shrink-0 text-muted-foreground h-8 w-8"
+                        >
+                          <ChevronsUp className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {(isHost || (item.deviceId && item.deviceId === deviceId && item.status !== 'playing')) && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleRemoveFromQueue(item.id, item.title)}
+                          disabled={removingItemId === item.id}
+                          data-testid={`button-remove-${item.id}`}
+                          className="shrink-0 text-muted-foreground hover:text-destructive h-8 w-8"
+                        >
+                          {removingItemId === item.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="w-4 h-4" />
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  </Card>
+                ))
+              )}
+            </div>
+          </ScrollArea>
+        </TabsContent>
+
+        <TabsContent value="chat" className="flex-1 mt-0">
+          <ChatPanel
+            messages={chatMessages}
+            devices={devices}
+            deviceId={deviceId}
+            isHost={isHost}
+            onSend={(text) => sendMessage({ type: "send_chat", text })}
+            onMute={(target, muted) => sendMessage({ type: "mute_device", deviceId: target, muted })}
+            t={t}
+          />
+        </TabsContent>
+
+        <TabsContent value="history" className="flex-1 mt-0">
+          <ScrollArea className="h-[calc(100vh-200px)]">
+            <div className="p-4 space-y-3">
+              {leaderboard && leaderboard.topSingers.length + leaderboard.topSongs.length > 0 && (
+                <Card className="p-3" data-testid="panel-leaderboard">
+                  <LeaderboardView leaderboard={leaderboard} t={t} variant="mobile" />
+                </Card>
+              )}
+              {history.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <History className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                  <p>{t.noHistory}</p>
+                </div>
+              ) : (
+                history.map((entry) => (
+                  <Card
+                    key={entry.id}
+                    className="p-3 flex gap-3 items-start"
+                    data-testid={`card-history-${entry.id}`}
+                  >
+                    <img
+                      src={entry.thumbnail}
+                      alt={entry.title}
+                      className="w-12 h-9 object-cover rounded shrink-0"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-sm line-clamp-2 leading-tight">
+                        {entry.title}
+                      </p>
+                      <div className="flex items-center gap-2 mt-1 flex-wrap text-xs text-muted-foreground">
+                        <span>
+                          {new Date(entry.endedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        </span>
+                        {entry.singerName && (
+                          <span className="flex items-center gap-1">
+                            <Mic className="w-3 h-3" />
+                            {entry.singerName}
+                          </span>
                         )}
-                      </Button>
+                        {entry.score !== null && (
+                          <span className="flex items-center gap-1 text-primary font-medium" data-testid={`text-history-score-${entry.id}`}>
+                            <Star className="w-3 h-3" />
+                            {entry.score}
+                          </span>
+                        )}
+                        {entry.outcome === 'skipped' && (
+                          <span className="bg-muted px-1.5 py-0.5 rounded">{t.skipped}</span>
+                        )}
+                      </div>
                     </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => handleAddToQueue({
+                        videoId: entry.videoId,
+                        title: entry.title,
+                        thumbnail: entry.thumbnail,
+                        channelTitle: entry.channelTitle ?? "",
+                        duration: entry.duration ?? undefined,
+                        source: entry.source,
+                      })}
+                      disabled={addingVideoId === entry.videoId}
+                      aria-label={t.singAgain}
+                      data-testid={`button-requeue-${entry.id}`}
+                      className="shrink-0 h-8 w-8"
+                    >
+                      {addingVideoId === entry.videoId ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-4 h-4" />
+                      )}
+                    </Button>
                   </Card>
                 ))
               )}
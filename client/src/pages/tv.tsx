@@ -1,141 +1,249 @@
 import { useEffect, useRef, useState, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
-import { Play, Pause, SkipForward, Music, Users, Star, Smartphone, Monitor } from "lucide-react";
-import type { Room, QueueItem, ConnectedDevice } from "@shared/schema";
+import { Play, Pause, SkipForward, Music, Users, Star, Smartphone, Monitor, Mic, MicOff, Crown, Lock, Trophy, X, Loader2 } from "lucide-react";
+import { parseRoomSettings, type PublicRoom, type QueueItem, type ConnectedDevice, type Leaderboard, type MediaSource, type ReactionCounts, type ChatMessage, type DeviceRole } from "@shared/schema";
+import { getPlayOrder } from "@shared/queue";
+import { mediaSourceOf } from "@shared/library";
+import { scoreWithReactions } from "@shared/reactions";
 import { useLanguage } from "@/lib/useLanguage";
+import { parseServerMessage, reconnectDelay } from "@/lib/roomSocket";
+import { useVocalScoring } from "@/lib/useVocalScoring";
+import { createKaraokePlayer, type KaraokePlayer, type KaraokePlayerEvents } from "@/lib/karaokePlayer";
+import type { VocalScore } from "@/lib/vocalScoring";
 import { QRCodeSVG } from "qrcode.react";
+import { LeaderboardView } from "@/components/LeaderboardView";
+import { ReactionOverlay, type FloatingReaction } from "@/components/ReactionOverlay";
+import { ShoutOutTicker } from "@/components/ShoutOutTicker";
+
+const POSITION_REPORT_INTERVAL_MS = 5000;
+// A secondary TV further than this from the primary's position jumps to it
+const MAX_DRIFT_SECONDS = 1.5;
+// How long a reaction floats over the video, matching the float-up animation
+const REACTION_FLOAT_MS = 3000;
+const MAX_FLOATING_REACTIONS = 40;
+// Chat messages running in the shout-out ticker at once
+const MAX_SHOUT_OUTS = 10;
+
+// The room this TV is showing, kept so a reload or browser crash rejoins it
+// with the same code
+const TV_ROOM_KEY = 'karaoke-tv-room';
+
+interface SavedTvRoom {
+  code: string;
+  // Null for a TV that joined someone else's room through a ?room= link
+  hostSecret: string | null;
+  sessionToken: string | null;
+}
 
-declare global {
-  interface Window {
-    YT: any;
-    onYouTubeIframeAPIReady: () => void;
+function loadSavedRoom(): SavedTvRoom | null {
+  try {
+    const saved = localStorage.getItem(TV_ROOM_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
   }
 }
 
+function saveRoom(room: SavedTvRoom | null) {
+  if (room) {
+    localStorage.setItem(TV_ROOM_KEY, JSON.stringify(room));
+  } else {
+    localStorage.removeItem(TV_ROOM_KEY);
+  }
+}
+
+// Puts the code in the address bar, so the page can be bookmarked as a
+// kiosk link. The host secret never goes there.
+function showRoomInUrl(code: string | null) {
+  window.history.replaceState(null, "", code ? `${window.location.pathname}?room=${code}` : window.location.pathname);
+}
+
 export default function TVPage() {
   const { toast } = useToast();
   const { language, toggleLanguage, t } = useLanguage();
-  const [room, setRoom] = useState<Room | null>(null);
+  const [room, setRoom] = useState<PublicRoom | null>(null);
   const [queue, setQueue] = useState<QueueItem[]>([]);
   const [devices, setDevices] = useState<ConnectedDevice[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  // A TV that joined without the host secret is a guest screen: it plays
+  // along, and ends songs when it is primary, but can't pause or skip
+  const [role, setRole] = useState<DeviceRole | null>(null);
+  const [skipTally, setSkipTally] = useState<{ songId: string; votes: number; needed: number } | null>(null);
+  const [floatingReactions, setFloatingReactions] = useState<FloatingReaction[]>([]);
+  // Totals for the playing song, added to its score when the room allows it
+  const [reactionCounts, setReactionCounts] = useState<{ songId: string; counts: ReactionCounts } | null>(null);
+  const [scoreBonus, setScoreBonus] = useState(0);
+  const [shoutOuts, setShoutOuts] = useState<ChatMessage[]>([]);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentVideoId, setCurrentVideoId] = useState<string | null>(null);
   const [currentTitle, setCurrentTitle] = useState<string | null>(null);
+  const [currentSource, setCurrentSource] = useState<MediaSource | null>(null);
   const [isCreatingRoom, setIsCreatingRoom] = useState(false);
-  const [ytReady, setYtReady] = useState(false);
+  const [isRejoining, setIsRejoining] = useState(
+    () => !!loadSavedRoom() || new URLSearchParams(window.location.search).has('room'),
+  );
+  const [roomPin, setRoomPin] = useState("");
+  const [joinCode, setJoinCode] = useState("");
+  const [showHostLink, setShowHostLink] = useState(false);
   const [showScore, setShowScore] = useState(false);
-  const [currentScore, setCurrentScore] = useState(0);
+  const [currentScore, setCurrentScore] = useState<VocalScore | null>(null);
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
   
   const wsRef = useRef<WebSocket | null>(null);
-  const playerRef = useRef<any>(null);
+  const playerRef = useRef<KaraokePlayer | null>(null);
+  // Latest handlers for the player's events; the player outlives renders
+  const playerEventsRef = useRef<KaraokePlayerEvents>({ onEnded: () => {}, onError: () => {} });
   const playerContainerRef = useRef<HTMLDivElement>(null);
+  // Where to start the next song loaded, set when rejoining mid-song
+  const resumeAtRef = useRef(0);
   const applauseRef = useRef<HTMLAudioElement | null>(null);
   const scoreInProgressRef = useRef(false);
+  const playingItemIdRef = useRef<string | undefined>(undefined);
+  const hostSecretRef = useRef<string | null>(null);
+  // Rejoining with it keeps this TV's device id, and its primary role when
+  // the server hasn't noticed the old connection drop yet
+  const sessionTokenRef = useRef<string | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const unmountedRef = useRef(false);
+  const isPrimaryRef = useRef(true);
+  const nextReactionIdRef = useRef(0);
+
+  // With several TVs in the room only the primary one reports positions and
+  // ends songs; the others follow it
+  const isPrimary = devices.find((device) => device.id === deviceId)?.primary ?? true;
+  isPrimaryRef.current = isPrimary;
+
+  // Rooms saved before sources were recorded only have the videoId
+  const playerSource = currentVideoId ? currentSource ?? mediaSourceOf(currentVideoId) : null;
+
+  const playingItemId = queue.find((item) => item.status === "playing")?.id ?? null;
+  const { micState, enable: enableMic, disable: disableMic, finishSong } =
+    useVocalScoring(isPlaying && !!currentVideoId, playingItemId);
 
   useEffect(() => {
-    if (window.YT && window.YT.Player) {
-      setYtReady(true);
-      return;
+    if (micState === 'unavailable') {
+      toast({ title: t.micUnavailable, variant: "destructive" });
     }
+  }, [micState]);
 
-    const tag = document.createElement("script");
-    tag.src = "https://www.youtube.com/iframe_api";
-    const firstScriptTag = document.getElementsByTagName("script")[0];
-    firstScriptTag.parentNode?.insertBefore(tag, firstScriptTag);
-
-    window.onYouTubeIframeAPIReady = () => {
-      setYtReady(true);
-    };
-
-    return () => {
-      window.onYouTubeIframeAPIReady = () => {};
-    };
-  }, []);
-
+  // Each source has its own player; switching source replaces the player,
+  // otherwise the next song is loaded into the one already there
   useEffect(() => {
-    if (!ytReady) return;
-    
-    if (!currentVideoId) {
-      if (playerRef.current) {
-        try {
-          playerRef.current.destroy();
-        } catch (e) {}
-        playerRef.current = null;
-      }
+    const container = playerContainerRef.current;
+    if (!currentVideoId || !playerSource || !container) {
+      playerRef.current?.destroy();
+      playerRef.current = null;
       return;
     }
 
-    if (!playerContainerRef.current) return;
-
-    if (playerRef.current) {
-      try {
-        playerRef.current.loadVideoById(currentVideoId);
-        if (isPlaying) {
-          playerRef.current.playVideo();
-        }
-      } catch (e) {}
-      return;
+    if (playerRef.current?.source !== playerSource) {
+      playerRef.current?.destroy();
+      playerRef.current = createKaraokePlayer(playerSource, container, {
+        onEnded: () => playerEventsRef.current.onEnded(),
+        onError: () => playerEventsRef.current.onError(),
+      });
     }
-
-    playerRef.current = new window.YT.Player("youtube-player", {
-      videoId: currentVideoId,
-      playerVars: {
-        autoplay: 1,
-        controls: 0,
-        disablekb: 1,
-        fs: 0,
-        modestbranding: 1,
-        rel: 0,
-        showinfo: 0,
-      },
-      events: {
-        onReady: (event: any) => {
-          if (isPlaying) {
-            event.target.playVideo();
-          }
-        },
-        onStateChange: (event: any) => {
-          if (event.data === window.YT.PlayerState.ENDED) {
-            handleVideoEnd();
-          }
-        },
-      },
-    });
-  }, [ytReady, currentVideoId]);
+    playerRef.current.load(currentVideoId, isPlaying, resumeAtRef.current);
+    resumeAtRef.current = 0;
+  }, [currentVideoId, playerSource]);
 
   useEffect(() => {
-    if (!playerRef.current) return;
-    
     if (isPlaying) {
-      playerRef.current.playVideo?.();
+      playerRef.current?.play();
     } else {
-      playerRef.current.pauseVideo?.();
+      playerRef.current?.pause();
     }
   }, [isPlaying]);
 
+  useEffect(() => () => playerRef.current?.destroy(), []);
+
+  // Phones show a progress bar from these reports, and a reloaded TV
+  // resumes from the last one
+  const reportPosition = () => {
+    const player = playerRef.current;
+    const songId = playingItemIdRef.current;
+    if (!player || !songId || wsRef.current?.readyState !== WebSocket.OPEN) return;
+    wsRef.current.send(JSON.stringify({
+      type: "playback_position",
+      songId,
+      position: player.getCurrentTime(),
+      duration: player.getDuration(),
+    }));
+  };
+
+  useEffect(() => {
+    if (!currentVideoId || !isPrimary) return;
+    if (!isPlaying) {
+      // Once more so phones stop at the paused position
+      reportPosition();
+      return;
+    }
+    const interval = setInterval(reportPosition, POSITION_REPORT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, currentVideoId, isPrimary]);
+
   const connectWebSocket = useCallback((roomCode: string) => {
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
     wsRef.current = ws;
 
     ws.onopen = () => {
-      ws.send(JSON.stringify({ type: "join_room", roomCode, deviceName: "TV", deviceType: "tv" }));
+      ws.send(JSON.stringify({
+        type: "join_room",
+        roomCode,
+        deviceName: "TV",
+        deviceType: "tv",
+        hostSecret: hostSecretRef.current ?? undefined,
+        sessionToken: sessionTokenRef.current ?? undefined,
+      }));
+    };
+
+    // Back to the create-room screen, without reconnecting
+    const leaveRoom = (title: string, description: string) => {
+      wsRef.current = null;
+      ws.close();
+      hostSecretRef.current = null;
+      sessionTokenRef.current = null;
+      saveRoom(null);
+      showRoomInUrl(null);
+      setRoom(null);
+      setQueue([]);
+      setDevices([]);
+      setRole(null);
+      setIsPlaying(false);
+      setCurrentVideoId(null);
+      setCurrentTitle(null);
+      setCurrentSource(null);
+      toast({ title, description, variant: "destructive" });
     };
 
     ws.onmessage = (event) => {
-      const message = JSON.parse(event.data);
+      const message = parseServerMessage(event.data);
+      if (!message) return;
 
       switch (message.type) {
         case "room_state":
+          reconnectAttemptRef.current = 0;
+          sessionTokenRef.current = message.sessionToken ?? null;
+          saveRoom({ code: message.room.code, hostSecret: hostSecretRef.current, sessionToken: sessionTokenRef.current });
           setRoom(message.room);
           setQueue(message.queue);
           setDevices(message.devices || []);
+          setDeviceId(message.deviceId ?? null);
+          setRole(message.role ?? null);
           setIsPlaying(message.room.isPlaying || false);
+          // A TV rejoining mid-song picks up where the room left off
+          resumeAtRef.current = message.room.currentVideoId ? message.room.playbackPosition : 0;
           setCurrentVideoId(message.room.currentVideoId);
           setCurrentTitle(message.room.currentVideoTitle);
+          setCurrentSource(message.room.currentVideoSource);
           break;
 
         case "queue_updated":
@@ -155,9 +263,25 @@ export default function TVPage() {
           setIsPlaying(message.isPlaying);
           break;
 
+        case "seek":
+          playerRef.current?.seekTo(message.position);
+          break;
+
+        case "playback_position": {
+          // Drift correction for secondary TVs
+          const player = playerRef.current;
+          if (isPrimaryRef.current || !player) break;
+          if (Math.abs(player.getCurrentTime() - message.position) > MAX_DRIFT_SECONDS) {
+            player.seekTo(message.position);
+          }
+          break;
+        }
+
         case "current_song":
+          resumeAtRef.current = 0;
           setCurrentVideoId(message.videoId);
           setCurrentTitle(message.title);
+          setCurrentSource(message.source);
           break;
 
         case "device_joined":
@@ -180,25 +304,80 @@ export default function TVPage() {
         case "devices_updated":
           setDevices(message.devices);
           break;
+
+        case "settings_updated":
+          setRoom(prev => prev && { ...prev, settings: message.settings });
+          break;
+
+        case "leaderboard_updated":
+          setLeaderboard(message.leaderboard);
+          break;
+
+        case "chat_message":
+          setShoutOuts(prev => [...prev.slice(-(MAX_SHOUT_OUTS - 1)), message.message]);
+          break;
+
+        case "skip_votes":
+          setSkipTally({ songId: message.songId, votes: message.votes, needed: message.needed });
+          break;
+
+        case "reaction": {
+          setReactionCounts({ songId: message.songId, counts: message.counts });
+          const floating = { id: nextReactionIdRef.current++, reaction: message.reaction, left: 5 + Math.random() * 85 };
+          // Capped so a burst of reactions can't pile up without end
+          setFloatingReactions(prev => [...prev.slice(-(MAX_FLOATING_REACTIONS - 1)), floating]);
+          setTimeout(() => {
+            setFloatingReactions(prev => prev.filter(other => other.id !== floating.id));
+          }, REACTION_FLOAT_MS);
+          // Claps set off the applause, unless it is already going
+          if (message.reaction === "clap" && applauseRef.current?.paused) {
+            applauseRef.current.currentTime = 0;
+            applauseRef.current.play().catch(() => {});
+          }
+          break;
+        }
+
+        case "room_closed":
+          leaveRoom(t.roomClosed, message.reason === "expired" ? t.roomExpired : t.roomClosedByHost);
+          break;
+
+        case "error":
+          // Only joins fail this way: the room was deleted while this TV was
+          // offline, or a ?room= link points at a room with a PIN
+          if (message.code === "room_not_found") {
+            leaveRoom(t.roomClosed, t.roomExpired);
+          } else if (message.code === "pin_required" || message.code === "incorrect_pin") {
+            leaveRoom(t.error, message.message);
+          }
+          break;
       }
     };
 
     ws.onclose = () => {
-      setTimeout(() => {
-        if (room?.code) {
-          connectWebSocket(room.code);
-        }
-      }, 3000);
+      if (unmountedRef.current || wsRef.current !== ws) return;
+      const delay = reconnectDelay(reconnectAttemptRef.current++);
+      reconnectTimerRef.current = setTimeout(() => connectWebSocket(roomCode), delay);
     };
 
     return ws;
-  }, [room?.code, toast]);
+  }, [toast]);
 
   const createRoom = async () => {
     setIsCreatingRoom(true);
     try {
-      const response = await fetch("/api/rooms", { method: "POST" });
-      const newRoom = await response.json();
+      const response = await fetch("/api/rooms", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(roomPin ? { pin: roomPin } : {}),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to create room");
+      }
+      const { hostSecret, ...newRoom } = await response.json();
+      hostSecretRef.current = hostSecret;
+      sessionTokenRef.current = null;
+      saveRoom({ code: newRoom.code, hostSecret, sessionToken: null });
+      showRoomInUrl(newRoom.code);
       setRoom(newRoom);
       connectWebSocket(newRoom.code);
     } catch (error) {
@@ -222,38 +401,169 @@ export default function TVPage() {
   const handleSkip = () => {
     if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
     try {
-      wsRef.current.send(JSON.stringify({ type: "skip_song" }));
+      // Name the song being skipped so a duplicate skip doesn't advance twice
+      wsRef.current.send(JSON.stringify({ type: "skip_song", songId: playingItemIdRef.current }));
+    } catch (e) {}
+  };
+
+  const openLeaderboard = async () => {
+    if (!room) return;
+    setShowLeaderboard(true);
+    try {
+      const response = await fetch(`/api/rooms/${room.code}/leaderboard`, {
+        headers: sessionTokenRef.current ? { "X-Device-Token": sessionTokenRef.current } : {},
+      });
+      if (response.ok) {
+        setLeaderboard(await response.json());
+      }
     } catch (e) {}
   };
 
   const handleVideoEnd = () => {
+    // Secondary TVs wait for the primary one to move the room on
+    if (!isPrimaryRef.current) return;
     if (scoreInProgressRef.current) return;
     scoreInProgressRef.current = true;
-    
-    const score = Math.floor(Math.random() * 51) + 50;
-    setCurrentScore(score);
-    setShowScore(true);
-    
+    const finishedId = playingItemIdRef.current;
+    const result = finishSong();
+
+    const reportFinished = () => {
+      scoreInProgressRef.current = false;
+      if (finishedId && wsRef.current?.readyState === WebSocket.OPEN) {
+        // Reported as completed, unlike a skip, so it's recorded as sung
+        wsRef.current.send(JSON.stringify({ type: "song_finished", songId: finishedId, score: result?.score }));
+      }
+    };
+
     if (applauseRef.current) {
       applauseRef.current.currentTime = 0;
       applauseRef.current.play().catch(() => {});
     }
-    
+
+    // Without the microphone there's nothing to score
+    if (!result) {
+      reportFinished();
+      return;
+    }
+
+    const counts = reactionCounts && reactionCounts.songId === finishedId ? reactionCounts.counts : {};
+    const score = scoreWithReactions(result.score, counts, parseRoomSettings(room?.settings));
+    setCurrentScore(result);
+    setScoreBonus(score - result.score);
+    setShowScore(true);
     setTimeout(() => {
       setShowScore(false);
-      scoreInProgressRef.current = false;
-      handleSkip();
+      reportFinished();
     }, 4000);
   };
 
+  // A song that can't play would otherwise stall the room
+  const handlePlaybackError = () => {
+    toast({ title: t.playbackError, variant: "destructive" });
+    if (isPrimaryRef.current) {
+      handleSkip();
+    }
+  };
+
+  playerEventsRef.current = { onEnded: handleVideoEnd, onError: handlePlaybackError };
+
+  // Opens a room that already exists. With the host secret the room is
+  // reclaimed as host; without it the TV joins as an extra screen.
+  const openRoom = async (code: string, hostSecret: string | null, sessionToken: string | null) => {
+    try {
+      const response = hostSecret
+        ? await fetch(`/api/rooms/${code}/reclaim`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ hostSecret }),
+          })
+        : await fetch(`/api/rooms/${code}`, {
+            headers: sessionToken ? { "X-Device-Token": sessionToken } : {},
+          });
+      if (!response.ok) {
+        saveRoom(null);
+        showRoomInUrl(null);
+        toast({
+          title: response.status === 403 ? t.error : t.roomNotFound,
+          // Without the host secret a 403 means the room has a PIN, which
+          // only phones can enter
+          description: response.status !== 403 ? t.couldNotFindRoom
+            : hostSecret ? t.notRoomHost
+            : t.screenNeedsNoPin,
+          variant: "destructive",
+        });
+        return;
+      }
+      const data = await response.json();
+      hostSecretRef.current = hostSecret;
+      sessionTokenRef.current = sessionToken;
+      saveRoom({ code, hostSecret, sessionToken });
+      setRoom(data.room);
+      setQueue(data.queue);
+      connectWebSocket(code);
+    } catch (error) {
+      // Server unreachable: keep the saved room for the next reload
+      toast({
+        title: t.error,
+        description: t.couldNotRejoinRoom,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // A second TV joins a room another TV created by typing its code
+  const joinAsScreen = async () => {
+    setIsCreatingRoom(true);
+    const code = joinCode.toUpperCase();
+    showRoomInUrl(code);
+    await openRoom(code, null, null);
+    setIsCreatingRoom(false);
+  };
+
+  // Rejoins the saved room, or the one in a /tv?room=CODE link, reclaiming
+  // it with the host secret when there is one (saved, or &host= in a kiosk
+  // link)
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const linkedCode = params.get('room')?.toUpperCase() || null;
+    const linkedSecret = params.get('host');
+    const saved = loadSavedRoom();
+    const code = linkedCode ?? saved?.code;
+    if (!code) return;
+    if (linkedSecret) {
+      showRoomInUrl(code);
+    }
+
+    const sameRoom = saved?.code === code;
+    const hostSecret = linkedSecret ?? (sameRoom ? saved.hostSecret : null);
+    const sessionToken = sameRoom ? saved.sessionToken : null;
+    openRoom(code, hostSecret, sessionToken).finally(() => setIsRejoining(false));
+  }, []);
+
   useEffect(() => {
     return () => {
+      unmountedRef.current = true;
+      if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
       wsRef.current?.close();
     };
   }, []);
 
-  const allQueueSongs = queue;
-  const upcomingSongs = queue.filter((item) => item.status === "waiting");
+  useEffect(() => {
+    playingItemIdRef.current = queue.find((item) => item.status === "playing")?.id;
+  }, [queue]);
+
+  const settings = parseRoomSettings(room?.settings);
+  const upcomingSongs = getPlayOrder(queue, settings);
+  const allQueueSongs = [...queue.filter((item) => item.status === "playing"), ...upcomingSongs];
+
+  if (!room && isRejoining) {
+    return (
+      <div className="dark min-h-screen bg-black flex items-center justify-center text-muted-foreground" data-testid="tv-rejoining">
+        <Loader2 className="w-8 h-8 animate-spin mr-3" />
+        <span className="text-xl">{t.rejoiningRoom}</span>
+      </div>
+    );
+  }
 
   if (!room) {
     return (
@@ -273,15 +583,46 @@ export default function TVPage() {
           <p className="text-muted-foreground mb-8 text-lg">
             {t.createRoomDescription}
           </p>
+          <Input
+            type="text"
+            inputMode="numeric"
+            placeholder={t.roomPinOptional}
+            value={roomPin}
+            onChange={(e) => setRoomPin(e.target.value.replace(/\D/g, "").slice(0, 8))}
+            className="text-center text-xl tracking-widest h-12 mb-4"
+            data-testid="input-room-pin"
+          />
           <Button
             size="lg"
             onClick={createRoom}
-            disabled={isCreatingRoom}
+            disabled={isCreatingRoom || (roomPin.length > 0 && roomPin.length < 4)}
             data-testid="button-create-room"
             className="w-full text-lg py-6"
           >
             {isCreatingRoom ? t.creating : t.createRoom}
           </Button>
+          <p className="text-muted-foreground mt-8 mb-4">{t.joinAsScreen}</p>
+          <div className="flex gap-2">
+            <Input
+              type="text"
+              placeholder="ABCDEF"
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value.toUpperCase().slice(0, 6))}
+              className="text-center text-xl font-bold tracking-widest h-12"
+              maxLength={6}
+              data-testid="input-join-code"
+            />
+            <Button
+              size="lg"
+              variant="outline"
+              onClick={joinAsScreen}
+              disabled={isCreatingRoom || joinCode.length !== 6}
+              data-testid="button-join-as-screen"
+              className="h-12"
+            >
+              {t.joinButton}
+            </Button>
+          </div>
         </Card>
       </div>
     );
@@ -295,7 +636,7 @@ export default function TVPage() {
         preload="auto"
       />
       
-      {showScore && (
+      {showScore && currentScore && (
         <div 
           className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm"
           data-testid="score-overlay"
@@ -305,15 +646,47 @@ export default function TVPage() {
               {[...Array(5)].map((_, i) => (
                 <Star 
                   key={i} 
-                  className={`w-12 h-12 ${currentScore >= 60 + i * 10 ? 'text-yellow-400 fill-yellow-400' : 'text-muted-foreground'}`} 
+                  className={`w-12 h-12 ${currentScore.score >= 60 + i * 10 ? 'text-yellow-400 fill-yellow-400' : 'text-muted-foreground'}`} 
                 />
               ))}
             </div>
             <p className="text-8xl font-bold text-primary mb-4" data-testid="text-score">
-              {currentScore}
+              {currentScore.score + scoreBonus}
             </p>
             <p className="text-3xl text-muted-foreground">{t.greatPerformance}</p>
+            <div className="flex justify-center gap-8 mt-6 text-lg text-muted-foreground" data-testid="score-breakdown">
+              <span>{t.pitchStability} {Math.round(currentScore.pitchStability * 100)}%</span>
+              <span>{t.voiceActivity} {Math.round(currentScore.voiceActivity * 100)}%</span>
+              <span>{t.dynamics} {Math.round(currentScore.dynamics * 100)}%</span>
+              {scoreBonus > 0 && (
+                <span data-testid="text-reaction-bonus">{t.audienceBonus} +{scoreBonus}</span>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showLeaderboard && (
+        <div
+          className="fixed inset-0 z-40 bg-black/95 p-12 overflow-auto"
+          data-testid="leaderboard-screen"
+        >
+          <div className="flex items-center justify-between mb-10">
+            <h2 className="text-5xl font-bold flex items-center gap-4">
+              <Trophy className="w-12 h-12 text-yellow-400" />
+              {t.leaderboard}
+            </h2>
+            <Button
+              variant="outline"
+              size="lg"
+              onClick={() => setShowLeaderboard(false)}
+              data-testid="button-close-leaderboard"
+            >
+              <X className="w-5 h-5 mr-2" />
+              {t.close}
+            </Button>
           </div>
+          {leaderboard && <LeaderboardView leaderboard={leaderboard} t={t} variant="tv" />}
         </div>
       )}
 
@@ -321,6 +694,15 @@ export default function TVPage() {
         <div className="flex items-center gap-4">
           <Music className="w-8 h-8 text-primary" />
           <h1 className="text-2xl font-bold">{t.karaoke}</h1>
+          {role === 'guest' && (
+            <span
+              className="bg-muted text-muted-foreground px-2 py-1 rounded text-sm"
+              title={t.guestScreenDescription}
+              data-testid="text-guest-screen"
+            >
+              {t.guestScreen}
+            </span>
+          )}
           <div className="flex items-center gap-2 bg-card px-3 py-1.5 rounded-lg" data-testid="display-connected-devices">
             <Users className="w-5 h-5 text-muted-foreground" />
             <div className="flex items-center gap-1">
@@ -330,7 +712,8 @@ export default function TVPage() {
                 devices.map((device) => (
                   <span
                     key={device.id}
-                    className="flex items-center gap-1 bg-muted px-2 py-0.5 rounded text-sm"
+                    className={`flex items-center gap-1 bg-muted px-2 py-0.5 rounded text-sm ${device.primary ? 'ring-1 ring-primary' : ''}`}
+                    title={device.primary ? t.primaryScreen : undefined}
                     data-testid={`device-${device.id}`}
                   >
                     {device.type === 'tv' ? (
@@ -346,6 +729,41 @@ export default function TVPage() {
           </div>
         </div>
         <div className="flex items-center gap-3">
+          <Button
+            variant={micState === 'listening' ? 'default' : 'outline'}
+            size="sm"
+            onClick={micState === 'listening' ? disableMic : enableMic}
+            disabled={micState === 'starting'}
+            title={micState === 'unavailable' ? t.micUnavailable : undefined}
+            data-testid="button-scoring-mic"
+          >
+            {micState === 'listening' ? (
+              <Mic className="w-4 h-4 mr-1" />
+            ) : (
+              <MicOff className="w-4 h-4 mr-1" />
+            )}
+            {t.scoringMic}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={openLeaderboard}
+            data-testid="button-leaderboard"
+          >
+            <Trophy className="w-4 h-4 mr-1" />
+            {t.leaderboard}
+          </Button>
+          {hostSecretRef.current && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowHostLink(true)}
+              data-testid="button-host-link"
+            >
+              <Crown className="w-4 h-4 mr-1" />
+              {t.hostPhone}
+            </Button>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -369,26 +787,48 @@ export default function TVPage() {
             </div>
             <div className="flex flex-col">
               <span className="text-sm text-muted-foreground">{t.scanToJoin}</span>
-              <span className="text-3xl font-bold tracking-wider text-primary">
+              <span className="flex items-center gap-2 text-3xl font-bold tracking-wider text-primary">
                 {room.code}
+                {room.hasPin && (
+                  <Lock className="w-5 h-5 text-muted-foreground" data-testid="icon-room-pin" />
+                )}
               </span>
             </div>
           </div>
         </div>
       </div>
 
+      <Dialog open={showHostLink} onOpenChange={setShowHostLink}>
+        <DialogContent className="dark text-foreground">
+          <DialogHeader>
+            <DialogTitle>{t.hostPhone}</DialogTitle>
+            <DialogDescription>{t.hostPhoneDescription}</DialogDescription>
+          </DialogHeader>
+          {hostSecretRef.current && (
+            <div className="bg-white p-4 rounded-lg mx-auto" data-testid="qr-code-host">
+              <QRCodeSVG
+                value={`${window.location.origin}/mobile?room=${room.code}&host=${encodeURIComponent(hostSecretRef.current)}`}
+                size={220}
+                level="M"
+                includeMargin={false}
+              />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       <div className="flex-1 flex flex-col">
         <div className={`w-full px-4 pt-4 ${!currentVideoId ? 'hidden' : ''}`}>
           <div
-            ref={playerContainerRef}
             className="relative w-full"
             style={{ paddingBottom: "56.25%" }}
           >
             <div
-              id="youtube-player"
+              ref={playerContainerRef}
               className="absolute inset-0 w-full h-full rounded-lg overflow-hidden bg-black"
               data-testid="video-player"
             />
+            <ReactionOverlay reactions={floatingReactions} />
           </div>
           
           <div
@@ -402,30 +842,39 @@ export default function TVPage() {
               >
                 {currentTitle || t.unknownSong}
               </p>
-              <p className="text-sm text-muted-foreground">{t.nowPlaying}</p>
-            </div>
-            <div className="flex items-center gap-3">
-              <Button
-                size="lg"
-                variant="outline"
-                onClick={handlePlayPause}
-                data-testid="button-play-pause"
-              >
-                {isPlaying ? (
-                  <Pause className="w-5 h-5" />
-                ) : (
-                  <Play className="w-5 h-5" />
+              <p className="text-sm text-muted-foreground">
+                {t.nowPlaying}
+                {skipTally && skipTally.songId === playingItemId && skipTally.votes > 0 && (
+                  <span className="ml-3 text-primary font-medium" data-testid="text-skip-votes">
+                    {t.skipVotes} {skipTally.votes}/{skipTally.needed}
+                  </span>
                 )}
-              </Button>
-              <Button
-                size="lg"
-                variant="outline"
-                onClick={handleSkip}
-                data-testid="button-skip"
-              >
-                <SkipForward className="w-5 h-5" />
-              </Button>
+              </p>
             </div>
+            {role === 'host' && (
+              <div className="flex items-center gap-3">
+                <Button
+                  size="lg"
+                  variant="outline"
+                  onClick={handlePlayPause}
+                  data-testid="button-play-pause"
+                >
+                  {isPlaying ? (
+                    <Pause className="w-5 h-5" />
+                  ) : (
+                    <Play className="w-5 h-5" />
+                  )}
+                </Button>
+                <Button
+                  size="lg"
+                  variant="outline"
+                  onClick={handleSkip}
+                  data-testid="button-skip"
+                >
+                  <SkipForward className="w-5 h-5" />
+                </Button>
+              </div>
+            )}
           </div>
         </div>
         
@@ -456,7 +905,14 @@ export default function TVPage() {
 
         <div className="border-t border-border bg-card mt-auto">
           <div className="flex items-center justify-between p-3 border-b border-border">
-            <h2 className="text-lg font-bold">{t.upNext}</h2>
+            <div className="flex items-center gap-3">
+              <h2 className="text-lg font-bold">{t.upNext}</h2>
+              {settings.fairRotation && (
+                <span className="text-xs bg-muted px-2 py-0.5 rounded" data-testid="badge-fair-rotation">
+                  {t.fairRotation}
+                </span>
+              )}
+            </div>
             <p className="text-sm text-muted-foreground">
               {allQueueSongs.length} {allQueueSongs.length !== 1 ? t.songs : t.song}
             </p>
@@ -498,6 +954,12 @@ export default function TVPage() {
                         {item.status === 'playing' && (
                           <span className="text-xs text-primary font-medium">{t.playing}</span>
                         )}
+                        {item.singerName && (
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground truncate" data-testid={`text-queue-singer-${item.id}`}>
+                            <Mic className="w-3 h-3 shrink-0" />
+                            {item.singerName}
+                          </span>
+                        )}
                         {item.duration && (
                           <p className="text-xs text-muted-foreground">
                             {item.duration}
@@ -510,6 +972,7 @@ export default function TVPage() {
               )}
             </div>
           </ScrollArea>
+          <ShoutOutTicker messages={shoutOuts} />
         </div>
       </div>
     </div>
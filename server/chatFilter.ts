@@ -0,0 +1,24 @@
+// Words masked in chat messages. Stems also match longer words built on
+// them ("fucking"); whole words only match themselves, so "dick" doesn't
+// catch "Dickens".
+const BLOCKED_STEMS = ["fuck", "shit", "bitch", "cunt", "asshole", "motherfuck"];
+const BLOCKED_WORDS = [
+  "dick", "pussy", "bastard", "slut", "whore",
+  // Vietnamese
+  "địt", "đụ", "lồn", "cặc", "buồi", "đéo", "đĩ", "vãi lồn", "đmm", "vcl", "vl", "clgt",
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Letters on either side mean the match is part of a longer word
+const blocked = new RegExp(
+  `(?<!\\p{L})(?:(?:${BLOCKED_STEMS.map(escapeRegExp).join("|")})\\p{L}*|(?:${BLOCKED_WORDS.map(escapeRegExp).join("|")})(?!\\p{L}))`,
+  "giu",
+);
+
+// Replaces blocked words with asterisks, keeping the rest of the message
+export function filterProfanity(text: string): string {
+  return text.normalize("NFC").replace(blocked, (word) => "*".repeat(Array.from(word).length));
+}
@@ -0,0 +1,113 @@
+export type StorageDriver = "database" | "memory";
+
+function parseStorageDriver(value: string | undefined): StorageDriver {
+  if (!value || value === "database") return "database";
+  if (value === "memory") return "memory";
+  throw new Error(
+    `Unknown STORAGE_DRIVER "${value}". Expected "database" or "memory".`,
+  );
+}
+
+const searchProviderNames = ["youtube", "local", "fixture"] as const;
+
+export type SearchProviderName = (typeof searchProviderNames)[number];
+
+function isSearchProviderName(value: string): value is SearchProviderName {
+  return (searchProviderNames as readonly string[]).includes(value);
+}
+
+// Comma-separated, tried in order: "youtube,local" falls back to the local
+// library when YouTube fails
+function parseSearchProviders(value: string | undefined): SearchProviderName[] {
+  if (!value) return ["youtube"];
+  const names = value.split(",").map(name => name.trim()).filter(Boolean);
+  for (const name of names) {
+    if (!isSearchProviderName(name)) {
+      throw new Error(
+        `Unknown search provider "${name}" in SEARCH_PROVIDERS. Expected ${searchProviderNames.join(", ")}.`,
+      );
+    }
+  }
+  return names.length > 0 ? (names as SearchProviderName[]) : ["youtube"];
+}
+
+export type SearchCacheStore = "memory" | "database";
+
+function parseSearchCacheStore(value: string | undefined, storageDriver: StorageDriver): SearchCacheStore {
+  if (!value || value === "memory") return "memory";
+  if (value === "database") {
+    if (storageDriver !== "database") {
+      throw new Error('SEARCH_CACHE "database" needs STORAGE_DRIVER "database".');
+    }
+    return "database";
+  }
+  throw new Error(
+    `Unknown SEARCH_CACHE "${value}". Expected "memory" or "database".`,
+  );
+}
+
+function parsePositiveNumber(name: string, value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive number, got "${value}".`);
+  }
+  return parsed;
+}
+
+// YOUTUBE_API_KEYS takes any number of keys separated by commas or
+// whitespace. The older GOOGLE_API_KEY, GOOGLE_API_KEY_2, ... variables are
+// still read, in numeric order.
+function parseYouTubeApiKeys(env: NodeJS.ProcessEnv): string[] {
+  const numbered = Object.keys(env)
+    .map(name => ({ name, match: name.match(/^GOOGLE_API_KEY(?:_(\d+))?$/) }))
+    .filter(({ match }) => match)
+    .sort((a, b) => Number(a.match![1] ?? 1) - Number(b.match![1] ?? 1))
+    .map(({ name }) => env[name]);
+  const listed = (env.YOUTUBE_API_KEYS ?? "").split(/[\s,]+/);
+  const keys = [...listed, ...numbered].map(key => key?.trim()).filter(Boolean) as string[];
+  return Array.from(new Set(keys));
+}
+
+export type EventBusDriver = "local" | "postgres";
+
+function parseEventBusDriver(value: string | undefined, storageDriver: StorageDriver): EventBusDriver {
+  if (!value || value === "local") return "local";
+  if (value === "postgres") {
+    if (storageDriver !== "database") {
+      throw new Error('EVENT_BUS "postgres" needs STORAGE_DRIVER "database".');
+    }
+    return "postgres";
+  }
+  throw new Error(
+    `Unknown EVENT_BUS "${value}". Expected "local" or "postgres".`,
+  );
+}
+
+const storageDriver = parseStorageDriver(process.env.STORAGE_DRIVER);
+
+// Runtime configuration read once at startup from environment variables
+export const config = {
+  // "memory" keeps everything in process memory (no DATABASE_URL needed),
+  // handy for local runs and tests. Data is lost on restart.
+  storageDriver,
+  searchProviders: parseSearchProviders(process.env.SEARCH_PROVIDERS),
+  youtubeApiKeys: parseYouTubeApiKeys(process.env),
+  // Folder of karaoke video files, indexed into library_songs and streamed
+  // to the TV
+  libraryDir: process.env.LIBRARY_DIR || null,
+  libraryRescanMs: parsePositiveNumber("LIBRARY_RESCAN_MINUTES", process.env.LIBRARY_RESCAN_MINUTES, 10) * 60 * 1000,
+  // JSON array of VideoSearchResult for the fixture provider; built-in
+  // fixtures are used when unset
+  searchFixturesFile: process.env.SEARCH_FIXTURES_FILE || null,
+  // Where YouTube search results are cached; "database" survives restarts
+  searchCacheStore: parseSearchCacheStore(process.env.SEARCH_CACHE, storageDriver),
+  searchCacheTtlMs: parsePositiveNumber("SEARCH_CACHE_TTL_MINUTES", process.env.SEARCH_CACHE_TTL_MINUTES, 12 * 60) * 60 * 1000,
+  // Rooms nobody has been connected to for this long are deleted
+  roomIdleTtlMs: parsePositiveNumber("ROOM_IDLE_TTL_HOURS", process.env.ROOM_IDLE_TTL_HOURS, 24) * 60 * 60 * 1000,
+  // How room events reach sockets on other server instances. "local" is a
+  // single instance; "postgres" uses LISTEN/NOTIFY so replicas can share rooms
+  eventBus: parseEventBusDriver(process.env.EVENT_BUS, storageDriver),
+  // Enables the /api/admin endpoints when set; sent as X-Admin-Token
+  adminToken: process.env.ADMIN_TOKEN || null,
+};
@@ -1,10 +1,11 @@
 import { drizzle } from "drizzle-orm/node-postgres";
 import pg from "pg";
 import * as schema from "@shared/schema";
+import { config } from "./config";
 
 const { Pool } = pg;
 
-if (!process.env.DATABASE_URL) {
+if (!process.env.DATABASE_URL && config.storageDriver === "database") {
   throw new Error(
     "DATABASE_URL must be set. Did you forget to provision a database?",
   );
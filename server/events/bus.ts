@@ -0,0 +1,48 @@
+import type { ConnectedDevice, RoomClosedReason, ServerMessage } from "@shared/schema";
+
+// What server instances tell each other about the rooms they serve
+export type RoomBusEvent =
+  // A message for every socket in the room
+  | { kind: "broadcast"; roomId: string; message: ServerMessage }
+  // All devices one instance has in a room; empty once the last one left
+  | { kind: "presence"; roomId: string; devices: ConnectedDevice[] }
+  // A newly started instance asking the others to announce their presence
+  | { kind: "presence_request" }
+  // Drop a device's connection without announcing it, because the device
+  // reconnected to another instance
+  | { kind: "disconnect_device"; roomId: string; deviceId: string }
+  | { kind: "set_primary_tv"; roomId: string; deviceId: string }
+  // The host muted or unmuted a device in the chat
+  | { kind: "mute_device"; roomId: string; deviceId: string; muted: boolean }
+  // A phone voted to skip the playing song
+  | { kind: "skip_vote"; roomId: string; songId: string; deviceId: string }
+  // The room was deleted; disconnect everyone in it
+  | { kind: "room_closed"; roomId: string; reason: RoomClosedReason };
+
+export interface RoomBusListener {
+  // An event published by another instance; an instance never receives its
+  // own events
+  onEvent(origin: string, event: RoomBusEvent): void;
+  // Called whenever the bus (re)connects. Events published while it was
+  // disconnected are lost, so the listener should resync its presence.
+  onConnected(): void;
+}
+
+export interface RoomEventBus {
+  readonly name: string;
+  start(listener: RoomBusListener): Promise<void>;
+  // Events are delivered in the order they were published
+  publish(event: RoomBusEvent): Promise<void>;
+  close(): Promise<void>;
+}
+
+// A single server instance has nobody to tell
+export class LocalRoomEventBus implements RoomEventBus {
+  readonly name = "local";
+
+  async start(): Promise<void> {}
+
+  async publish(): Promise<void> {}
+
+  async close(): Promise<void> {}
+}
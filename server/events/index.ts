@@ -0,0 +1,13 @@
+import { randomUUID } from "crypto";
+import { config } from "../config";
+import { LocalRoomEventBus, type RoomEventBus } from "./bus";
+import { PostgresRoomEventBus } from "./postgres";
+
+export type { RoomBusEvent, RoomBusListener, RoomEventBus } from "./bus";
+export { RemotePresence, PRESENCE_REFRESH_MS } from "./presence";
+
+// Tells this process's events apart from those of other replicas
+export const instanceId = randomUUID();
+
+export const eventBus: RoomEventBus =
+  config.eventBus === "postgres" ? new PostgresRoomEventBus(instanceId) : new LocalRoomEventBus();
@@ -0,0 +1,123 @@
+import type { Notification, PoolClient } from "pg";
+import { eq, lt } from "drizzle-orm";
+import { roomEvents } from "@shared/schema";
+import { db, pool } from "../db";
+import type { RoomBusEvent, RoomBusListener, RoomEventBus } from "./bus";
+
+const CHANNEL = "karaoke_room_events";
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_NOTIFY_BYTES = 7900;
+const SPILLED_EVENT_TTL_MS = 60_000;
+const RECONNECT_DELAY_MS = 5000;
+
+interface Envelope {
+  origin: string;
+  event: RoomBusEvent;
+}
+
+// What goes over the channel: the event itself, or the room_events row
+// holding it when it is too large
+type Notice = Envelope | { origin: string; ref: string };
+
+// Shares room events between server instances with LISTEN/NOTIFY on the
+// existing pool. One pooled connection is held for LISTEN; publishing uses
+// whichever connection is free.
+export class PostgresRoomEventBus implements RoomEventBus {
+  readonly name = "postgres";
+  private client: PoolClient | null = null;
+  private listener: RoomBusListener | null = null;
+  private closed = false;
+  // Publishing and delivery are chained so events keep their order, even
+  // when some have to be written to or read from room_events first
+  private sending: Promise<void> = Promise.resolve();
+  private receiving: Promise<void> = Promise.resolve();
+
+  constructor(private instanceId: string) {}
+
+  async start(listener: RoomBusListener): Promise<void> {
+    this.listener = listener;
+    await this.listen();
+  }
+
+  publish(event: RoomBusEvent): Promise<void> {
+    const sent = this.sending.then(() => this.send(event));
+    this.sending = sent.catch(() => {});
+    return sent;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    const client = this.client;
+    this.client = null;
+    if (client) {
+      await client.query(`UNLISTEN ${CHANNEL}`).catch(() => {});
+      client.release();
+    }
+  }
+
+  private async listen(): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query(`LISTEN ${CHANNEL}`);
+    } catch (error) {
+      client.release(error as Error);
+      throw error;
+    }
+    client.on("notification", (notification) => this.receive(notification));
+    client.on("error", (error) => {
+      if (this.client !== client) return;
+      console.error("Room event bus lost its connection:", error);
+      this.client = null;
+      client.release(error);
+      this.reconnect();
+    });
+    this.client = client;
+    this.listener?.onConnected();
+  }
+
+  private reconnect() {
+    setTimeout(() => {
+      if (this.closed) return;
+      this.listen().catch((error) => {
+        console.error("Room event bus could not reconnect:", error);
+        this.reconnect();
+      });
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private async send(event: RoomBusEvent): Promise<void> {
+    const envelope: Envelope = { origin: this.instanceId, event };
+    let payload = JSON.stringify(envelope);
+    if (Buffer.byteLength(payload) > MAX_NOTIFY_BYTES) {
+      const [row] = await db.insert(roomEvents).values({ payload: envelope }).returning({ id: roomEvents.id });
+      await db.delete(roomEvents).where(lt(roomEvents.createdAt, new Date(Date.now() - SPILLED_EVENT_TTL_MS)));
+      payload = JSON.stringify({ origin: this.instanceId, ref: row.id });
+    }
+    await pool.query("SELECT pg_notify($1, $2)", [CHANNEL, payload]);
+  }
+
+  private receive(notification: Notification) {
+    if (notification.channel !== CHANNEL || !notification.payload) return;
+    let notice: Notice;
+    try {
+      notice = JSON.parse(notification.payload);
+    } catch {
+      console.warn("Ignoring malformed room event");
+      return;
+    }
+    if (notice.origin === this.instanceId) return;
+
+    this.receiving = this.receiving
+      .then(() => this.resolve(notice))
+      .then((envelope) => {
+        if (envelope) this.listener?.onEvent(envelope.origin, envelope.event);
+      })
+      .catch((error) => console.error("Failed to handle room event:", error));
+  }
+
+  private async resolve(notice: Notice): Promise<Envelope | undefined> {
+    if (!("ref" in notice)) return notice;
+    const [row] = await db.select().from(roomEvents).where(eq(roomEvents.id, notice.ref));
+    return row?.payload as Envelope | undefined;
+  }
+}
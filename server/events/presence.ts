@@ -0,0 +1,65 @@
+import type { ConnectedDevice } from "@shared/schema";
+
+// Instances re-announce their devices this often. An instance that stayed
+// silent for three intervals is assumed gone, along with its devices.
+export const PRESENCE_REFRESH_MS = 15_000;
+const PRESENCE_EXPIRY_MS = PRESENCE_REFRESH_MS * 3;
+
+interface Announcement {
+  devices: ConnectedDevice[];
+  receivedAt: number;
+}
+
+// Devices connected to other server instances, as they last announced them
+export class RemotePresence {
+  // roomId -> origin instance -> its devices in that room
+  private rooms = new Map<string, Map<string, Announcement>>();
+
+  update(origin: string, roomId: string, devices: ConnectedDevice[], now = Date.now()) {
+    let instances = this.rooms.get(roomId);
+    if (!instances) {
+      instances = new Map();
+      this.rooms.set(roomId, instances);
+    }
+    if (devices.length > 0) {
+      instances.set(origin, { devices, receivedAt: now });
+    } else {
+      instances.delete(origin);
+      if (instances.size === 0) this.rooms.delete(roomId);
+    }
+  }
+
+  devicesIn(roomId: string): ConnectedDevice[] {
+    const instances = this.rooms.get(roomId);
+    if (!instances) return [];
+    return Array.from(instances.values()).flatMap(announcement => announcement.devices);
+  }
+
+  // Forgets a device right away, e.g. one that just reconnected here, ahead
+  // of its old instance's next announcement
+  remove(roomId: string, deviceId: string): ConnectedDevice | undefined {
+    for (const announcement of Array.from(this.rooms.get(roomId)?.values() ?? [])) {
+      const index = announcement.devices.findIndex(device => device.id === deviceId);
+      if (index !== -1) {
+        return announcement.devices.splice(index, 1)[0];
+      }
+    }
+    return undefined;
+  }
+
+  // Drops announcements from instances that went quiet and returns the rooms
+  // that lost devices
+  prune(now = Date.now()): string[] {
+    const changed: string[] = [];
+    for (const [roomId, instances] of Array.from(this.rooms)) {
+      for (const [origin, announcement] of Array.from(instances)) {
+        if (now - announcement.receivedAt > PRESENCE_EXPIRY_MS) {
+          instances.delete(origin);
+          if (!changed.includes(roomId)) changed.push(roomId);
+        }
+      }
+      if (instances.size === 0) this.rooms.delete(roomId);
+    }
+    return changed;
+  }
+}
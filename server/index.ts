@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { config } from "./config";
+import { startLibraryIndexer } from "./library/indexer";
 import { createServer } from "http";
 
 const app = express();
@@ -61,13 +63,18 @@ app.use((req, res, next) => {
 
 (async () => {
   try {
-    const { testConnection } = await import("./db");
-    const dbConnected = await testConnection();
-    if (!dbConnected) {
-      console.error("Failed to connect to database. Server will start but database operations may fail.");
+    if (config.storageDriver === "database") {
+      const { testConnection } = await import("./db");
+      const dbConnected = await testConnection();
+      if (!dbConnected) {
+        console.error("Failed to connect to database. Server will start but database operations may fail.");
+      }
+    } else {
+      log(`using ${config.storageDriver} storage, data will not persist across restarts`);
     }
 
-    await registerRoutes(httpServer, app);
+    await registerRoutes(httpServer, app, (message) => log(message, "rooms"));
+    startLibraryIndexer((message) => log(message, "library"));
 
     app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
       const status = err.status || err.statusCode || 500;
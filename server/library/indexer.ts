@@ -0,0 +1,137 @@
+import { readdir, stat } from "fs/promises";
+import path from "path";
+import type { InsertLibrarySong } from "@shared/schema";
+import { storage } from "../storage";
+import { config } from "../config";
+import { normalizeSearchText } from "../search/provider";
+import { readVideoTags } from "./tags";
+
+// Formats a browser <video> element can usually play; .avi and the like
+// would be indexed but never play on the TV
+const VIDEO_EXTENSIONS = new Set([".mp4", ".m4v", ".mkv", ".webm", ".mov"]);
+
+export interface LibraryIndexResult {
+  scanned: number;
+  added: number;
+  updated: number;
+  removed: number;
+  durationMs: number;
+}
+
+// Relative paths with forward slashes, skipping hidden files and folders
+async function listVideoFiles(root: string, dir = ""): Promise<string[]> {
+  const entries = await readdir(path.join(root, dir), { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+    const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await listVideoFiles(root, relativePath));
+    } else if (entry.isFile() && VIDEO_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+// "Artist - Title.mp4" and "Title.mkv" are both common naming schemes
+function describeFileName(relativePath: string): { title: string; artist: string | null } {
+  const name = path.basename(relativePath, path.extname(relativePath)).replace(/_/g, " ").trim();
+  const separator = name.indexOf(" - ");
+  if (separator === -1) {
+    return { title: name, artist: null };
+  }
+  return {
+    artist: name.slice(0, separator).trim() || null,
+    title: name.slice(separator + 3).trim() || name,
+  };
+}
+
+async function describeFile(root: string, relativePath: string, fileSize: number, modifiedAt: Date): Promise<InsertLibrarySong> {
+  const fromName = describeFileName(relativePath);
+  // Embedded tags are more reliable than file names when present
+  const tags = await readVideoTags(path.join(root, relativePath));
+  const title = tags.title ?? fromName.title;
+  const artist = tags.artist ?? fromName.artist;
+  return {
+    path: relativePath,
+    title,
+    artist,
+    durationSeconds: tags.durationSeconds ?? null,
+    fileSize,
+    modifiedAt,
+    searchText: normalizeSearchText(`${artist ?? ""} ${title} ${relativePath}`),
+  };
+}
+
+// Brings library_songs in line with the folder: new and changed files are
+// (re)read, unchanged ones are skipped by size and modification time, and
+// rows for deleted files are removed
+export async function indexLibrary(root: string): Promise<LibraryIndexResult> {
+  const startedAt = Date.now();
+  const files = await listVideoFiles(root);
+  const existing = new Map((await storage.getLibrarySongs()).map(song => [song.path, song]));
+  const result: LibraryIndexResult = { scanned: files.length, added: 0, updated: 0, removed: 0, durationMs: 0 };
+
+  for (const relativePath of files) {
+    let stats;
+    try {
+      stats = await stat(path.join(root, relativePath));
+    } catch {
+      // Deleted while we were scanning
+      continue;
+    }
+
+    const known = existing.get(relativePath);
+    existing.delete(relativePath);
+    if (known && known.fileSize === stats.size && known.modifiedAt.getTime() === stats.mtime.getTime()) {
+      continue;
+    }
+
+    await storage.saveLibrarySong(await describeFile(root, relativePath, stats.size, stats.mtime));
+    if (known) result.updated++;
+    else result.added++;
+  }
+
+  // Whatever is left wasn't found on disk
+  const missing = Array.from(existing.values()).map(song => song.id);
+  await storage.deleteLibrarySongs(missing);
+  result.removed = missing.length;
+  result.durationMs = Date.now() - startedAt;
+  return result;
+}
+
+let running: Promise<LibraryIndexResult> | null = null;
+
+// Indexes LIBRARY_DIR, or joins the run already in progress
+export function reindexLibrary(): Promise<LibraryIndexResult> {
+  if (!config.libraryDir) {
+    return Promise.reject(new Error("LIBRARY_DIR is not configured"));
+  }
+  if (!running) {
+    running = indexLibrary(config.libraryDir).finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+// Indexes at startup and then every LIBRARY_RESCAN_MINUTES, so files copied
+// into the folder show up without a restart
+export function startLibraryIndexer(log: (message: string) => void) {
+  if (!config.libraryDir) return;
+
+  const run = async () => {
+    try {
+      const result = await reindexLibrary();
+      if (result.added || result.updated || result.removed) {
+        log(`${result.scanned} files, ${result.added} added, ${result.updated} updated, ${result.removed} removed in ${result.durationMs}ms`);
+      }
+    } catch (error) {
+      log(`Library indexing failed: ${error}`);
+    }
+  };
+
+  void run();
+  setInterval(run, config.libraryRescanMs).unref();
+}
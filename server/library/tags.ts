@@ -0,0 +1,278 @@
+import { open, type FileHandle } from "fs/promises";
+import path from "path";
+
+// Metadata embedded in a video file. Every field is optional: most karaoke
+// files only have what's in their file name.
+export interface VideoTags {
+  title?: string;
+  artist?: string;
+  durationSeconds?: number;
+}
+
+// Metadata boxes are small; anything bigger is not worth reading for tags
+const MAX_METADATA_BYTES = 16 * 1024 * 1024;
+
+async function readAt(file: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+// --- MP4 / MOV (ISO base media file format) ---
+
+interface Box {
+  type: string;
+  // Offsets of the payload inside the buffer being walked
+  start: number;
+  end: number;
+}
+
+function childBoxes(buffer: Buffer, start = 0, end = buffer.length): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(buffer: Buffer, parent: Box | null, type: string): Box | undefined {
+  return childBoxes(buffer, parent?.start, parent?.end).find(box => box.type === type);
+}
+
+// iTunes-style text item: the value sits in a "data" box after 8 bytes of
+// type and locale
+function readIlstText(buffer: Buffer, item: Box): string | undefined {
+  const data = findBox(buffer, item, "data");
+  if (!data || data.end - data.start <= 8) return undefined;
+  return buffer.toString("utf8", data.start + 8, data.end).trim() || undefined;
+}
+
+async function readMp4Tags(file: FileHandle, fileSize: number): Promise<VideoTags> {
+  // Walk the top-level boxes without reading them until we reach moov,
+  // which may sit after the media data in files that weren't "fast started"
+  let offset = 0;
+  while (offset + 8 <= fileSize) {
+    const header = await readAt(file, offset, 16);
+    if (header.length < 8) break;
+    let size = header.readUInt32BE(0);
+    const type = header.toString("latin1", 4, 8);
+    if (size === 1 && header.length >= 16) {
+      size = Number(header.readBigUInt64BE(8));
+    } else if (size === 0) {
+      size = fileSize - offset;
+    }
+    if (size < 8) break;
+
+    if (type === "moov") {
+      if (size > MAX_METADATA_BYTES) return {};
+      return parseMoov(await readAt(file, offset, size));
+    }
+    offset += size;
+  }
+  return {};
+}
+
+function parseMoov(buffer: Buffer): VideoTags {
+  const tags: VideoTags = {};
+  const moov = findBox(buffer, null, "moov");
+  if (!moov) return tags;
+
+  const mvhd = findBox(buffer, moov, "mvhd");
+  if (mvhd) {
+    const version = buffer.readUInt8(mvhd.start);
+    const timescale = version === 1 ? buffer.readUInt32BE(mvhd.start + 20) : buffer.readUInt32BE(mvhd.start + 12);
+    const duration = version === 1 ? Number(buffer.readBigUInt64BE(mvhd.start + 24)) : buffer.readUInt32BE(mvhd.start + 16);
+    if (timescale > 0 && duration > 0) {
+      tags.durationSeconds = Math.round(duration / timescale);
+    }
+  }
+
+  const udta = findBox(buffer, moov, "udta");
+  const meta = udta && findBox(buffer, udta, "meta");
+  // meta is a full box: 4 bytes of version and flags before its children
+  const ilst = meta && findBox(buffer, { ...meta, start: meta.start + 4 }, "ilst");
+  if (ilst) {
+    for (const item of childBoxes(buffer, ilst.start, ilst.end)) {
+      if (item.type === "©nam") tags.title = readIlstText(buffer, item);
+      if (item.type === "©ART") tags.artist = readIlstText(buffer, item);
+    }
+  }
+  return tags;
+}
+
+// --- Matroska / WebM (EBML) ---
+
+const EBML_ID = {
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  duration: 0x4489,
+  title: 0x7ba9,
+  tags: 0x1254c376,
+  tag: 0x7373,
+  simpleTag: 0x67c8,
+  tagName: 0x45a3,
+  tagString: 0x4487,
+};
+
+interface EbmlElement {
+  id: number;
+  // Absolute file offsets of the element's data
+  start: number;
+  // null when the size is unknown (live-streamed files)
+  end: number | null;
+}
+
+// Reads a variable-length integer. IDs keep their length marker bit,
+// sizes drop it.
+function readVint(buffer: Buffer, offset: number, keepMarker: boolean): { value: number; length: number; unknown: boolean } | null {
+  const first = buffer[offset];
+  if (first === undefined || first === 0) return null;
+  let length = 1;
+  while (!(first & (0x80 >> (length - 1)))) length++;
+  if (offset + length > buffer.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    allOnes = allOnes && buffer[offset + i] === 0xff;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+async function readEbmlElement(file: FileHandle, offset: number): Promise<EbmlElement | null> {
+  const header = await readAt(file, offset, 12);
+  const id = readVint(header, 0, true);
+  if (!id) return null;
+  const size = readVint(header, id.length, false);
+  if (!size) return null;
+  const start = offset + id.length + size.length;
+  return { id: id.value, start, end: size.unknown ? null : start + size.value };
+}
+
+// Children of an element whose data has been read into `buffer`
+function ebmlChildren(buffer: Buffer, start = 0, end = buffer.length): { id: number; start: number; end: number }[] {
+  const children: { id: number; start: number; end: number }[] = [];
+  let offset = start;
+  while (offset < end) {
+    const id = readVint(buffer, offset, true);
+    if (!id) break;
+    const size = readVint(buffer, offset + id.length, false);
+    if (!size || size.unknown) break;
+    const dataStart = offset + id.length + size.length;
+    const dataEnd = dataStart + size.value;
+    if (dataEnd > end) break;
+    children.push({ id: id.value, start: dataStart, end: dataEnd });
+    offset = dataEnd;
+  }
+  return children;
+}
+
+function readUnsigned(buffer: Buffer, start: number, end: number): number {
+  let value = 0;
+  for (let i = start; i < end; i++) value = value * 256 + buffer[i];
+  return value;
+}
+
+function parseMkvInfo(buffer: Buffer, tags: VideoTags) {
+  let timecodeScale = 1_000_000;
+  let duration: number | undefined;
+  for (const child of ebmlChildren(buffer)) {
+    if (child.id === EBML_ID.timecodeScale) {
+      timecodeScale = readUnsigned(buffer, child.start, child.end);
+    } else if (child.id === EBML_ID.duration) {
+      const size = child.end - child.start;
+      duration = size === 4 ? buffer.readFloatBE(child.start) : size === 8 ? buffer.readDoubleBE(child.start) : undefined;
+    } else if (child.id === EBML_ID.title) {
+      tags.title = buffer.toString("utf8", child.start, child.end).trim() || undefined;
+    }
+  }
+  if (duration) {
+    tags.durationSeconds = Math.round((duration * timecodeScale) / 1e9);
+  }
+}
+
+// TITLE and ARTIST simple tags; they win over the segment title
+function parseMkvTags(buffer: Buffer, tags: VideoTags) {
+  for (const tag of ebmlChildren(buffer)) {
+    if (tag.id !== EBML_ID.tag) continue;
+    for (const simpleTag of ebmlChildren(buffer, tag.start, tag.end)) {
+      if (simpleTag.id !== EBML_ID.simpleTag) continue;
+      let name: string | undefined;
+      let value: string | undefined;
+      for (const field of ebmlChildren(buffer, simpleTag.start, simpleTag.end)) {
+        if (field.id === EBML_ID.tagName) name = buffer.toString("utf8", field.start, field.end).toUpperCase();
+        if (field.id === EBML_ID.tagString) value = buffer.toString("utf8", field.start, field.end).trim();
+      }
+      if (!value) continue;
+      if (name === "TITLE") tags.title = value;
+      if (name === "ARTIST") tags.artist = value;
+    }
+  }
+}
+
+async function readMkvTags(file: FileHandle, fileSize: number): Promise<VideoTags> {
+  const tags: VideoTags = {};
+
+  // Skip the EBML header to reach the Segment
+  const header = await readEbmlElement(file, 0);
+  if (!header?.end) return tags;
+  const segment = await readEbmlElement(file, header.end);
+  if (!segment || segment.id !== EBML_ID.segment) return tags;
+  const segmentEnd = segment.end ?? fileSize;
+
+  let offset = segment.start;
+  while (offset < segmentEnd) {
+    const element = await readEbmlElement(file, offset);
+    if (!element) break;
+    const size = element.end === null ? null : element.end - element.start;
+
+    if ((element.id === EBML_ID.info || element.id === EBML_ID.tags) && size !== null && size <= MAX_METADATA_BYTES) {
+      const data = await readAt(file, element.start, size);
+      if (element.id === EBML_ID.info) parseMkvInfo(data, tags);
+      else parseMkvTags(data, tags);
+    }
+    // A cluster of unknown size can't be skipped; tags after it are lost
+    if (element.end === null) break;
+    offset = element.end;
+  }
+  return tags;
+}
+
+const MP4_EXTENSIONS = new Set([".mp4", ".m4v", ".mov"]);
+const MKV_EXTENSIONS = new Set([".mkv", ".webm"]);
+
+// Best effort: unreadable or unusual files just come back without tags
+export async function readVideoTags(filePath: string): Promise<VideoTags> {
+  const extension = path.extname(filePath).toLowerCase();
+  if (!MP4_EXTENSIONS.has(extension) && !MKV_EXTENSIONS.has(extension)) return {};
+
+  // A file that can't be opened, e.g. one deleted mid-scan, just has no tags
+  let file: FileHandle | undefined;
+  try {
+    file = await open(filePath, "r");
+    const { size } = await file.stat();
+    return MP4_EXTENSIONS.has(extension)
+      ? await readMp4Tags(file, size)
+      : await readMkvTags(file, size);
+  } catch (error) {
+    console.warn(`Could not read tags from ${filePath}:`, error);
+    return {};
+  } finally {
+    await file?.close();
+  }
+}
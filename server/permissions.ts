@@ -0,0 +1,33 @@
+import { timingSafeEqual } from "crypto";
+import type { DeviceRole } from "@shared/schema";
+
+// Everything a device can ask the server to do. Hosts may do all of them;
+// guests only what's listed in guestActions.
+export type Action =
+  | "add_song"
+  | "remove_own_song"
+  | "remove_any_song"
+  | "reorder_queue"
+  | "control_playback"
+  | "change_settings"
+  | "manage_displays"
+  | "close_room"
+  | "review_songs"
+  | "vote_skip"
+  | "react"
+  | "chat"
+  | "moderate_chat";
+
+const guestActions = new Set<Action>(["add_song", "remove_own_song", "vote_skip", "react", "chat"]);
+
+export function can(role: DeviceRole, action: Action): boolean {
+  return role === "host" || guestActions.has(action);
+}
+
+// Constant-time comparison for host secrets and PINs
+export function secretsMatch(expected: string, provided: string | undefined): boolean {
+  if (provided === undefined) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
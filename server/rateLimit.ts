@@ -0,0 +1,13 @@
+// Allows at most `limit` events within any `windowMs` span
+export class RateLimiter {
+  private times: number[] = [];
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  tryAcquire(now = Date.now()): boolean {
+    this.times = this.times.filter(time => now - time < this.windowMs);
+    if (this.times.length >= this.limit) return false;
+    this.times.push(now);
+    return true;
+  }
+}
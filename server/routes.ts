@@ -1,26 +1,21 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
-import type { Room, QueueItem, WSMessage, ConnectedDevice } from "@shared/schema";
+import { storage, type AdvanceResult } from "./storage";
+import { moveQueueItemSchema, mediaSourceSchema, roomSettingsSchema, clientMessageSchema, parseRoomSettings, toPublicRoom, type Room, type QueueItem, type ServerMessage, type WSErrorCode, type ConnectedDevice, type DeviceRole, type DeviceSession, type RoomClosedReason, type QueueAddRejection } from "@shared/schema";
+import { buildLeaderboard } from "@shared/leaderboard";
+import { getLocalSongId, mediaSourceOf } from "@shared/library";
+import { can, secretsMatch, type Action } from "./permissions";
+import { SkipVotes, skipVotesNeeded } from "./skipVotes";
+import { RateLimiter } from "./rateLimit";
+import { filterProfanity } from "./chatFilter";
+import { searchProvider, librarySearch, getSearchStats, getApiKeyHealth, NoHealthyKeyError } from "./search";
+import { reindexLibrary } from "./library/indexer";
+import { config } from "./config";
+import { eventBus, RemotePresence, PRESENCE_REFRESH_MS, type RoomBusEvent, type RoomBusListener } from "./events";
 import { z } from "zod";
-import { randomUUID } from "crypto";
-
-// Round-robin API key rotation for YouTube API
-const apiKeys = [
-  process.env.GOOGLE_API_KEY,
-  process.env.GOOGLE_API_KEY_2,
-  process.env.GOOGLE_API_KEY_3,
-].filter(Boolean) as string[];
-
-let currentKeyIndex = 0;
-
-function getNextApiKey(): string | null {
-  if (apiKeys.length === 0) return null;
-  const key = apiKeys[currentKeyIndex];
-  currentKeyIndex = (currentKeyIndex + 1) % apiKeys.length;
-  return key;
-}
+import { fromZodError } from "zod-validation-error";
+import { randomUUID, randomBytes } from "crypto";
 
 const addToQueueSchema = z.object({
   videoId: z.string().min(1),
@@ -28,8 +23,58 @@ const addToQueueSchema = z.object({
   thumbnail: z.string().min(1),
   channelTitle: z.string().optional(),
   duration: z.string().optional(),
+  // Older clients don't send it; it's then worked out from the videoId
+  source: mediaSourceSchema.optional(),
+});
+
+const createRoomSchema = z.object({
+  pin: z.string().regex(/^\d{4,8}$/, 'PIN must be 4-8 digits').optional(),
+});
+
+const queueRejectionMessages: Record<QueueAddRejection['code'], string> = {
+  singer_limit_reached: 'You already have the maximum number of songs waiting',
+  duplicate_song: 'That song is already in the queue',
+  played_recently: 'That song was sung recently',
+  add_cooldown: 'Wait a little before adding another song',
+};
+
+// 409 for songs the queue won't take, 429 with Retry-After for the cooldown
+function sendQueueRejection(res: Response, rejection: QueueAddRejection) {
+  if ('retryAfterSeconds' in rejection) {
+    res.set('Retry-After', String(rejection.retryAfterSeconds));
+  }
+  const status = rejection.code === 'add_cooldown' ? 429 : 409;
+  return res.status(status).json({ error: queueRejectionMessages[rejection.code], ...rejection });
+}
+
+const reclaimRoomSchema = z.object({
+  hostSecret: z.string().min(1),
 });
 
+// REST calls that change a room identify the device by the session token it
+// received in room_state when it joined over the WebSocket
+const SESSION_HEADER = 'X-Device-Token';
+
+// Operator-only endpoints are disabled unless ADMIN_TOKEN is set
+const ADMIN_HEADER = 'X-Admin-Token';
+
+function isAdminRequest(req: Request): boolean {
+  return !!config.adminToken && secretsMatch(config.adminToken, req.get(ADMIN_HEADER));
+}
+
+async function getRequestSession(req: Request, room: Room): Promise<DeviceSession | undefined> {
+  const token = req.get(SESSION_HEADER);
+  if (!token) return undefined;
+  const session = await storage.getDeviceSession(token);
+  return session?.roomId === room.id ? session : undefined;
+}
+
+// A room with a PIN only shows its queue and history to devices that got in
+// through join_room, which asks for the PIN
+async function canViewRoom(req: Request, room: Room): Promise<boolean> {
+  return !room.pin || !!(await getRequestSession(req, room));
+}
+
 function generateRoomCode(): string {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
   let code = '';
@@ -44,16 +89,80 @@ interface DeviceConnection {
   device: ConnectedDevice;
 }
 
+// Sockets that don't answer a ping within one interval are terminated, so
+// phones that dropped off Wi-Fi don't linger as devices in the room
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+// How often idle rooms are looked for, at most. Every sweep also marks rooms
+// with connected devices as active.
+const ROOM_SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+// Reactions each phone may send; enough for excited tapping, not enough to
+// flood the TV
+const REACTION_LIMIT = 5;
+const REACTION_WINDOW_MS = 2000;
+const CHAT_LIMIT = 3;
+const CHAT_WINDOW_MS = 5000;
+
 const roomConnections = new Map<string, Set<WebSocket>>();
 const roomDevices = new Map<string, Map<WebSocket, ConnectedDevice>>();
+// Devices in the same rooms on other server instances
+const remotePresence = new RemotePresence();
+// Every instance records every vote, local or announced over the bus
+const skipVotes = new SkipVotes();
 
-function getDevicesInRoom(roomId: string): ConnectedDevice[] {
+function getLocalDevices(roomId: string): ConnectedDevice[] {
   const devices = roomDevices.get(roomId);
   if (!devices) return [];
   return Array.from(devices.values());
 }
 
-function broadcastToRoom(roomId: string, message: WSMessage, excludeWs?: WebSocket) {
+// Everyone in the room, connected to this instance or another one
+function getDevicesInRoom(roomId: string): ConnectedDevice[] {
+  const local = getLocalDevices(roomId);
+  const seen = new Set(local.map(device => device.id));
+  // A device that just moved instances may briefly be announced twice
+  const remote = remotePresence.devicesIn(roomId).filter(device => {
+    if (seen.has(device.id)) return false;
+    seen.add(device.id);
+    return true;
+  });
+  return [...local, ...remote];
+}
+
+// Forgets a socket's device; returns it unless something else already did
+function removeConnection(roomId: string, ws: WebSocket): ConnectedDevice | undefined {
+  const devices = roomDevices.get(roomId);
+  const device = devices?.get(ws);
+  devices?.delete(ws);
+  if (devices?.size === 0) {
+    roomDevices.delete(roomId);
+  }
+
+  const connections = roomConnections.get(roomId);
+  connections?.delete(ws);
+  if (connections?.size === 0) {
+    roomConnections.delete(roomId);
+  }
+  return device;
+}
+
+function sendMessage(ws: WebSocket, message: ServerMessage) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function sendError(ws: WebSocket, code: WSErrorCode, message: string) {
+  sendMessage(ws, { type: 'error', code, message });
+}
+
+function publish(event: RoomBusEvent) {
+  eventBus.publish(event).catch(error => console.error('Failed to publish room event:', error));
+}
+
+// Sends to the room's sockets on this instance only
+function deliverToRoom(roomId: string, message: ServerMessage, excludeWs?: WebSocket) {
   const connections = roomConnections.get(roomId);
   if (!connections) return;
   
@@ -65,176 +174,741 @@ function broadcastToRoom(roomId: string, message: WSMessage, excludeWs?: WebSock
   });
 }
 
+// Sends to every socket in the room, including those connected to other
+// instances through the event bus
+function broadcastToRoom(roomId: string, message: ServerMessage, excludeWs?: WebSocket) {
+  deliverToRoom(roomId, message, excludeWs);
+  publish({ kind: 'broadcast', roomId, message });
+}
+
+// Tells the other instances which devices this one has in the room
+function announcePresence(roomId: string) {
+  publish({ kind: 'presence', roomId, devices: getLocalDevices(roomId) });
+}
+
+function announceAllPresence() {
+  for (const roomId of Array.from(roomDevices.keys())) {
+    announcePresence(roomId);
+  }
+}
+
+function broadcastCurrentSong(roomId: string, current: QueueItem | undefined) {
+  broadcastToRoom(roomId, {
+    type: 'current_song',
+    videoId: current?.videoId ?? null,
+    title: current?.title ?? null,
+    thumbnail: current?.thumbnail ?? null,
+    source: current?.source ?? null
+  });
+  broadcastToRoom(roomId, { type: 'playback_state', isPlaying: !!current });
+  broadcastToRoom(roomId, { type: 'playback_position', position: 0, duration: null });
+}
+
+// After the playing song leaves the queue: announce its history entry, the
+// new leaderboard if it was scored, and whatever plays next
+async function broadcastAdvance(roomId: string, result: AdvanceResult) {
+  if (result.history) {
+    broadcastToRoom(roomId, { type: 'history_added', entry: result.history });
+    if (result.history.score !== null) {
+      const leaderboard = buildLeaderboard(await storage.getPlayHistory(roomId));
+      broadcastToRoom(roomId, { type: 'leaderboard_updated', leaderboard });
+    }
+  }
+  broadcastCurrentSong(roomId, result.current);
+}
+
+// Who hears a skip tally: the whole room, only this instance's sockets when
+// every instance counts the same change, or nobody
+type TallyAnnouncement = 'room' | 'local' | 'none';
+
+// Counts the skip votes of phones still in the room and skips the song once
+// there are enough. Every instance counts when it hears of a vote, so votes
+// cast on different instances at the same moment still add up; advanceRoom
+// lets only one of them skip. Only the instance that took the vote announces
+// the tally.
+async function tallySkipVotes(roomId: string, songId: string, announce: TallyAnnouncement) {
+  const room = await storage.getRoom(roomId);
+  if (!room) return;
+  const settings = parseRoomSettings(room.settings);
+  if (!settings.voteSkip) return;
+
+  const phones = getDevicesInRoom(roomId)
+    .filter(device => device.type === 'mobile')
+    .map(device => device.id);
+  const votes = skipVotes.votersFor(roomId, songId).filter(deviceId => phones.includes(deviceId)).length;
+  const needed = skipVotesNeeded(settings.voteSkipThreshold, phones.length);
+  if (announce === 'room') {
+    broadcastToRoom(roomId, { type: 'skip_votes', songId, votes, needed });
+  } else if (announce === 'local') {
+    deliverToRoom(roomId, { type: 'skip_votes', songId, votes, needed });
+  }
+  if (votes < needed) return;
+
+  const result = await storage.advanceRoom(roomId, { expectedCurrentId: songId });
+  if (!result || !result.advanced) return;
+  skipVotes.clear(roomId);
+  await broadcastAdvance(roomId, result);
+  broadcastToRoom(roomId, { type: 'queue_updated', queue: result.queue });
+}
+
+// Phones joining or leaving change how many votes a skip takes, so the
+// votes already cast are counted again
+function recountSkipVotes(roomId: string, announce: TallyAnnouncement) {
+  const songId = skipVotes.songFor(roomId);
+  if (!songId) return;
+  tallySkipVotes(roomId, songId, announce)
+    .catch(error => console.error('Failed to count skip votes:', error));
+}
+
+function byJoinOrder(a: ConnectedDevice, b: ConnectedDevice): number {
+  return a.joinedAt.localeCompare(b.joinedAt) || a.id.localeCompare(b.id);
+}
+
+// The primary TV ends songs and skips ones that fail to play, so only a TV
+// that joined with the host secret may be it. deviceType is whatever the
+// client claims, and a guest posing as a TV must not get to skip songs.
+function canBePrimary(device: ConnectedDevice): boolean {
+  return device.type === 'tv' && device.role === 'host';
+}
+
+// Makes the longest-connected host TV primary when the room has one but no
+// primary, e.g. after the primary disconnected. Guest screens only mirror,
+// so a room left with just those waits for a host TV to come back. Each
+// instance only changes its own devices: all of them pick the same TV, and
+// the one it is connected to marks it. When two instances elected at once,
+// the earlier-joined primary stays. Returns whether a device here changed.
+function ensurePrimaryTv(roomId: string): boolean {
+  const devices = getDevicesInRoom(roomId);
+  const local = getLocalDevices(roomId);
+  const primaries = devices.filter(device => device.primary).sort(byJoinOrder);
+  const rightful = primaries.filter(canBePrimary);
+  const demoted = primaries.filter(device => device !== rightful[0] && local.includes(device));
+  demoted.forEach(device => { device.primary = false; });
+  if (rightful.length > 0) return demoted.length > 0;
+  const tv = devices.filter(canBePrimary).sort(byJoinOrder)[0];
+  if (!tv || !local.includes(tv)) return demoted.length > 0;
+  tv.primary = true;
+  return true;
+}
+
+// Runs ensurePrimaryTv and lets everyone know if it changed anything
+function electPrimaryTv(roomId: string) {
+  if (ensurePrimaryTv(roomId)) {
+    announcePresence(roomId);
+    broadcastToRoom(roomId, { type: 'devices_updated', devices: getDevicesInRoom(roomId) });
+  }
+}
+
+function setPrimaryTv(roomId: string, deviceId: string): boolean {
+  const devices = getDevicesInRoom(roomId);
+  if (!devices.some(device => device.id === deviceId && canBePrimary(device))) return false;
+  applyPrimaryTv(roomId, deviceId);
+  publish({ kind: 'set_primary_tv', roomId, deviceId });
+  return true;
+}
+
+// Updates this instance's TVs, and its copy of the others' until they
+// announce their own
+function applyPrimaryTv(roomId: string, deviceId: string) {
+  for (const device of getDevicesInRoom(roomId)) {
+    device.primary = device.id === deviceId;
+  }
+  if (roomDevices.has(roomId)) {
+    announcePresence(roomId);
+  }
+}
+
+// Like applyPrimaryTv: this instance's devices, and its copy of the others'
+function applyMute(roomId: string, deviceId: string, muted: boolean) {
+  for (const device of getDevicesInRoom(roomId)) {
+    if (device.id === deviceId) device.muted = muted;
+  }
+  if (getLocalDevices(roomId).some(device => device.id === deviceId)) {
+    announcePresence(roomId);
+  }
+}
+
+// Drops the room's existing connection for a device that just reconnected
+// and closes it, here or on the instance that holds it. Its close handler
+// then finds nothing to announce.
+function replaceGhostConnection(roomId: string, deviceId: string): ConnectedDevice | undefined {
+  const local = disconnectDevice(roomId, deviceId);
+  if (local) return local;
+  const remote = remotePresence.remove(roomId, deviceId);
+  if (remote) {
+    publish({ kind: 'disconnect_device', roomId, deviceId });
+  }
+  return remote;
+}
+
+function disconnectDevice(roomId: string, deviceId: string): ConnectedDevice | undefined {
+  for (const [socket, device] of Array.from(roomDevices.get(roomId)?.entries() ?? [])) {
+    if (device.id !== deviceId) continue;
+    removeConnection(roomId, socket);
+    socket.terminate();
+    return device;
+  }
+  return undefined;
+}
+
+// Tells the room's sockets on this instance that the room is gone and
+// disconnects them
+function disconnectRoom(roomId: string, reason: RoomClosedReason) {
+  skipVotes.clear(roomId);
+  const connections = Array.from(roomConnections.get(roomId) ?? []);
+  if (connections.length === 0) return;
+  deliverToRoom(roomId, { type: 'room_closed', reason });
+  for (const ws of connections) {
+    removeConnection(roomId, ws);
+    ws.close();
+  }
+  announcePresence(roomId);
+}
+
+// For a room that was just deleted: disconnects its devices everywhere
+function closeRoom(roomId: string, reason: RoomClosedReason) {
+  disconnectRoom(roomId, reason);
+  publish({ kind: 'room_closed', roomId, reason });
+}
+
+// A room counts as active while any instance has a device in it: each one
+// marks its own rooms before looking for idle ones, and the TTL spans
+// several sweeps
+async function sweepIdleRooms(log: (message: string) => void) {
+  await storage.touchRooms(Array.from(roomDevices.keys()));
+  const expired = await storage.deleteIdleRooms(new Date(Date.now() - config.roomIdleTtlMs));
+  for (const room of expired) {
+    closeRoom(room.id, 'expired');
+  }
+  if (expired.length > 0) {
+    log(`Deleted ${expired.length} idle room(s)`);
+  }
+}
+
+const roomBusListener: RoomBusListener = {
+  onEvent(origin, event) {
+    switch (event.kind) {
+      case 'broadcast':
+        deliverToRoom(event.roomId, event.message);
+        break;
+
+      case 'presence':
+        remotePresence.update(origin, event.roomId, event.devices);
+        electPrimaryTv(event.roomId);
+        // The instance that saw the device come or go announces the tally
+        recountSkipVotes(event.roomId, 'none');
+        break;
+
+      case 'presence_request':
+        announceAllPresence();
+        break;
+
+      case 'disconnect_device':
+        if (disconnectDevice(event.roomId, event.deviceId)) {
+          announcePresence(event.roomId);
+        }
+        break;
+
+      case 'set_primary_tv':
+        applyPrimaryTv(event.roomId, event.deviceId);
+        break;
+
+      case 'mute_device':
+        applyMute(event.roomId, event.deviceId, event.muted);
+        break;
+
+      case 'skip_vote':
+        if (skipVotes.add(event.roomId, event.songId, event.deviceId)) {
+          tallySkipVotes(event.roomId, event.songId, 'none')
+            .catch(error => console.error('Failed to count skip votes:', error));
+        }
+        break;
+
+      case 'room_closed':
+        disconnectRoom(event.roomId, event.reason);
+        break;
+    }
+  },
+
+  onConnected() {
+    announceAllPresence();
+    publish({ kind: 'presence_request' });
+  },
+};
+
+async function moveSong(roomId: string, itemId: string, toIndex: number): Promise<QueueItem[] | undefined> {
+  const queue = await storage.moveQueueItem(roomId, itemId, toIndex);
+  if (queue) {
+    broadcastToRoom(roomId, { type: 'queue_updated', queue });
+  }
+  return queue;
+}
+
 export async function registerRoutes(
   httpServer: Server,
-  app: Express
+  app: Express,
+  log: (message: string) => void,
 ): Promise<Server> {
   
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
 
+  const aliveSockets = new WeakSet<WebSocket>();
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!aliveSockets.has(ws)) {
+        // Runs the close handler, which removes the device from its room
+        ws.terminate();
+        return;
+      }
+      aliveSockets.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  // Keeps the other instances' view of this one's devices fresh, and drops
+  // devices of instances that stopped announcing theirs
+  const presenceRefresh = setInterval(() => {
+    announceAllPresence();
+    for (const roomId of remotePresence.prune()) {
+      // Every instance prunes on its own, so only tell local sockets
+      deliverToRoom(roomId, { type: 'devices_updated', devices: getDevicesInRoom(roomId) });
+      electPrimaryTv(roomId);
+      recountSkipVotes(roomId, 'local');
+    }
+  }, PRESENCE_REFRESH_MS);
+  const roomSweep = setInterval(() => {
+    sweepIdleRooms(log).catch(error => log(`Failed to sweep idle rooms: ${error}`));
+  }, Math.min(ROOM_SWEEP_INTERVAL_MS, config.roomIdleTtlMs / 2));
+  await eventBus.start(roomBusListener);
+
+  wss.on('close', () => {
+    clearInterval(heartbeat);
+    clearInterval(presenceRefresh);
+    clearInterval(roomSweep);
+    eventBus.close().catch(error => console.error('Failed to close the room event bus:', error));
+  });
+
   wss.on('connection', (ws: WebSocket) => {
+    aliveSockets.add(ws);
+    ws.on('pong', () => aliveSockets.add(ws));
+
     let currentRoomId: string | null = null;
     let currentDeviceId: string | null = null;
+    let currentRole: DeviceRole | null = null;
+    const reactionLimiter = new RateLimiter(REACTION_LIMIT, REACTION_WINDOW_MS);
+    const chatLimiter = new RateLimiter(CHAT_LIMIT, CHAT_WINDOW_MS);
+
+    const isAllowed = (action: Action): boolean => {
+      if (!currentRoomId || !currentRole) {
+        sendError(ws, 'not_joined', 'Join a room first');
+        return false;
+      }
+      if (can(currentRole, action)) return true;
+      sendError(ws, 'not_allowed', 'Only the host can do that');
+      return false;
+    };
+
+    // Secondary TVs play along but must not advance the room or report
+    // positions of their own
+    const isPrimaryTv = (): boolean =>
+      !!currentRoomId && roomDevices.get(currentRoomId)?.get(ws)?.primary === true;
 
     ws.on('message', async (data) => {
+      let payload: unknown;
       try {
-        const message = JSON.parse(data.toString()) as WSMessage;
+        payload = JSON.parse(data.toString());
+      } catch {
+        sendError(ws, 'invalid_message', 'Message is not valid JSON');
+        return;
+      }
 
+      const parsed = clientMessageSchema.safeParse(payload);
+      if (!parsed.success) {
+        sendError(ws, 'invalid_message', fromZodError(parsed.error).message);
+        return;
+      }
+      const message = parsed.data;
+
+      try {
         switch (message.type) {
           case 'join_room': {
             const room = await storage.getRoomByCode(message.roomCode);
             if (!room) {
-              ws.send(JSON.stringify({ type: 'error', message: 'Room not found' }));
+              sendError(ws, 'room_not_found', 'Room not found');
               return;
             }
 
+            // A device reconnecting with its session token keeps its id,
+            // name and songs, and was already let past the PIN
+            const resumed = message.sessionToken ? await storage.getDeviceSession(message.sessionToken) : undefined;
+            const previous = resumed?.roomId === room.id ? resumed : undefined;
+
+            const isHost = secretsMatch(room.hostSecret, message.hostSecret) || previous?.role === 'host';
+            if (!previous && !isHost && room.pin && !secretsMatch(room.pin, message.pin)) {
+              if (message.pin) {
+                sendError(ws, 'incorrect_pin', 'Incorrect room PIN');
+              } else {
+                sendError(ws, 'pin_required', 'Room PIN required');
+              }
+              return;
+            }
+
+            // Track device
+            const device: ConnectedDevice = {
+              id: previous?.deviceId ?? randomUUID(),
+              name: previous?.name ?? (message.deviceName || `Guest ${Math.floor(Math.random() * 1000)}`),
+              type: previous?.deviceType ?? (message.deviceType || 'mobile'),
+              role: isHost ? 'host' : 'guest',
+              joinedAt: (previous?.createdAt ?? new Date()).toISOString(),
+              primary: false,
+              muted: previous?.muted ?? false,
+            };
+
+            const session = previous && previous.role === device.role
+              ? previous
+              : await storage.createDeviceSession({
+                  token: randomBytes(32).toString('base64url'),
+                  roomId: room.id,
+                  deviceId: device.id,
+                  name: device.name,
+                  deviceType: device.type,
+                  role: device.role,
+                  muted: device.muted,
+                });
+
+            // The old socket of a resumed device may not have noticed it is
+            // gone yet. Take its place, primary TV included, without telling
+            // the room it left.
+            const ghost = previous ? replaceGhostConnection(room.id, device.id) : undefined;
+            if (ghost?.primary) {
+              device.primary = true;
+            }
+
+            await storage.touchRooms([room.id]);
+
             currentRoomId = room.id;
-            currentDeviceId = randomUUID();
-            
+            currentDeviceId = device.id;
+            currentRole = device.role;
+
             if (!roomConnections.has(room.id)) {
               roomConnections.set(room.id, new Set());
             }
             roomConnections.get(room.id)!.add(ws);
 
-            // Track device
-            const device: ConnectedDevice = {
-              id: currentDeviceId,
-              name: message.deviceName || `Guest ${Math.floor(Math.random() * 1000)}`,
-              type: message.deviceType || 'mobile',
-              joinedAt: new Date().toISOString(),
-            };
-            
             if (!roomDevices.has(room.id)) {
               roomDevices.set(room.id, new Map());
             }
             roomDevices.get(room.id)!.set(ws, device);
+            // The first TV in a room becomes primary
+            ensurePrimaryTv(room.id);
+            announcePresence(room.id);
 
             const queue = await storage.getQueueByRoomId(room.id);
             const devices = getDevicesInRoom(room.id);
             
-            ws.send(JSON.stringify({
+            sendMessage(ws, {
               type: 'room_state',
-              room,
+              room: toPublicRoom(room),
               queue,
-              devices
-            }));
+              devices,
+              deviceId: device.id,
+              role: device.role,
+              sessionToken: session.token
+            });
 
-            // Broadcast device joined to others
-            broadcastToRoom(room.id, { type: 'device_joined', device }, ws);
+            if (ghost) {
+              broadcastToRoom(room.id, { type: 'devices_updated', devices }, ws);
+            } else {
+              // Broadcast device joined to others
+              broadcastToRoom(room.id, { type: 'device_joined', device }, ws);
+              recountSkipVotes(room.id, 'room');
+            }
             break;
           }
 
           case 'play': {
-            if (!currentRoomId) return;
+            if (!isAllowed('control_playback') || !currentRoomId) return;
             await storage.updateRoom(currentRoomId, { isPlaying: true });
             broadcastToRoom(currentRoomId, { type: 'playback_state', isPlaying: true });
             break;
           }
 
           case 'pause': {
-            if (!currentRoomId) return;
+            if (!isAllowed('control_playback') || !currentRoomId) return;
             await storage.updateRoom(currentRoomId, { isPlaying: false });
             broadcastToRoom(currentRoomId, { type: 'playback_state', isPlaying: false });
             break;
           }
 
+          case 'playback_position': {
+            if (!isAllowed('control_playback') || !currentRoomId || !isPrimaryTv()) return;
+
+            // Reports for a song that already left the stage are stale
+            const queue = await storage.getQueueByRoomId(currentRoomId);
+            if (queue.find(item => item.status === 'playing')?.id !== message.songId) return;
+
+            await storage.updateRoom(currentRoomId, {
+              playbackPosition: message.position,
+              playbackDuration: message.duration,
+              playbackUpdatedAt: new Date(),
+            });
+            broadcastToRoom(currentRoomId, {
+              type: 'playback_position',
+              position: message.position,
+              duration: message.duration,
+            }, ws);
+            break;
+          }
+
+          case 'seek': {
+            if (!isAllowed('control_playback') || !currentRoomId) return;
+
+            const room = await storage.getRoom(currentRoomId);
+            if (!room?.currentVideoId) return;
+
+            const position = room.playbackDuration === null
+              ? message.position
+              : Math.min(message.position, room.playbackDuration);
+            await storage.updateRoom(currentRoomId, { playbackPosition: position, playbackUpdatedAt: new Date() });
+            broadcastToRoom(currentRoomId, { type: 'seek', position });
+            broadcastToRoom(currentRoomId, { type: 'playback_position', position, duration: room.playbackDuration });
+            break;
+          }
+
           case 'skip_song': {
-            if (!currentRoomId) return;
-            
+            if (!isAllowed('control_playback') || !currentRoomId) return;
+
+            const result = await storage.advanceRoom(currentRoomId, { expectedCurrentId: message.songId });
+            if (!result || !result.advanced) return;
+
+            await broadcastAdvance(currentRoomId, result);
+            broadcastToRoom(currentRoomId, { type: 'queue_updated', queue: result.queue });
+            break;
+          }
+
+          case 'vote_skip': {
+            if (!isAllowed('vote_skip') || !currentRoomId || !currentDeviceId) return;
+
             const room = await storage.getRoom(currentRoomId);
             if (!room) return;
-
+            if (!parseRoomSettings(room.settings).voteSkip) {
+              sendError(ws, 'not_allowed', 'Voting to skip is turned off');
+              return;
+            }
+            if (roomDevices.get(currentRoomId)?.get(ws)?.type !== 'mobile') {
+              sendError(ws, 'not_allowed', 'Only phones can vote to skip');
+              return;
+            }
+            // A late vote for a song that already ended doesn't count
             const queue = await storage.getQueueByRoomId(currentRoomId);
-            const currentItem = queue.find(item => item.status === 'playing');
-            
-            if (currentItem) {
-              await storage.removeFromQueue(currentItem.id);
+            if (queue.find(item => item.status === 'playing')?.id !== message.songId) return;
+            if (!skipVotes.add(currentRoomId, message.songId, currentDeviceId)) return;
+
+            publish({ kind: 'skip_vote', roomId: currentRoomId, songId: message.songId, deviceId: currentDeviceId });
+            await tallySkipVotes(currentRoomId, message.songId, 'room');
+            break;
+          }
+
+          case 'react': {
+            if (!isAllowed('react') || !currentRoomId) return;
+            if (roomDevices.get(currentRoomId)?.get(ws)?.type !== 'mobile') {
+              sendError(ws, 'not_allowed', 'Only phones can react');
+              return;
             }
+            // Extra reactions are dropped quietly rather than answered with
+            // an error for every tap
+            if (!reactionLimiter.tryAcquire()) return;
 
-            const nextItem = await storage.getNextInQueue(currentRoomId);
-            
-            if (nextItem) {
-              await storage.updateQueueItem(nextItem.id, { status: 'playing' });
-              await storage.updateRoom(currentRoomId, {
-                currentVideoId: nextItem.videoId,
-                currentVideoTitle: nextItem.title,
-                currentVideoThumbnail: nextItem.thumbnail,
-                isPlaying: true
-              });
-              
-              const updatedQueue = await storage.getQueueByRoomId(currentRoomId);
-              broadcastToRoom(currentRoomId, {
-                type: 'current_song',
-                videoId: nextItem.videoId,
-                title: nextItem.title,
-                thumbnail: nextItem.thumbnail
-              });
-              broadcastToRoom(currentRoomId, { type: 'queue_updated', queue: updatedQueue });
-              broadcastToRoom(currentRoomId, { type: 'playback_state', isPlaying: true });
-            } else {
-              await storage.updateRoom(currentRoomId, {
-                currentVideoId: null,
-                currentVideoTitle: null,
-                currentVideoThumbnail: null,
-                isPlaying: false
-              });
-              
-              broadcastToRoom(currentRoomId, {
-                type: 'current_song',
-                videoId: null,
-                title: null,
-                thumbnail: null
-              });
-              broadcastToRoom(currentRoomId, { type: 'queue_updated', queue: [] });
-              broadcastToRoom(currentRoomId, { type: 'playback_state', isPlaying: false });
+            const counts = await storage.addReaction(currentRoomId, message.songId, message.reaction);
+            if (!counts) return;
+            broadcastToRoom(currentRoomId, { type: 'reaction', songId: message.songId, reaction: message.reaction, counts });
+            break;
+          }
+
+          case 'send_chat': {
+            if (!isAllowed('chat') || !currentRoomId) return;
+
+            const sender = roomDevices.get(currentRoomId)?.get(ws);
+            if (!sender) return;
+            if (sender.muted) {
+              sendError(ws, 'muted', 'The host muted you in the chat');
+              return;
+            }
+            if (!chatLimiter.tryAcquire()) {
+              sendError(ws, 'rate_limited', 'You are sending messages too fast');
+              return;
+            }
+
+            broadcastToRoom(currentRoomId, {
+              type: 'chat_message',
+              message: {
+                id: randomUUID(),
+                deviceId: sender.id,
+                name: sender.name,
+                text: filterProfanity(message.text),
+                sentAt: new Date().toISOString(),
+              },
+            });
+            break;
+          }
+
+          case 'mute_device': {
+            if (!isAllowed('moderate_chat') || !currentRoomId) return;
+
+            if (!(await storage.setDeviceMuted(currentRoomId, message.deviceId, message.muted))) {
+              sendError(ws, 'device_not_found', 'That device is not in the room');
+              return;
+            }
+            applyMute(currentRoomId, message.deviceId, message.muted);
+            publish({ kind: 'mute_device', roomId: currentRoomId, deviceId: message.deviceId, muted: message.muted });
+            broadcastToRoom(currentRoomId, { type: 'devices_updated', devices: getDevicesInRoom(currentRoomId) });
+            break;
+          }
+
+          case 'song_finished': {
+            if (!isAllowed('control_playback') || !currentRoomId || !isPrimaryTv()) return;
+
+            const result = await storage.advanceRoom(currentRoomId, {
+              expectedCurrentId: message.songId,
+              outcome: 'completed',
+              score: message.score,
+            });
+            if (!result || !result.advanced) return;
+
+            await broadcastAdvance(currentRoomId, result);
+            broadcastToRoom(currentRoomId, { type: 'queue_updated', queue: result.queue });
+            break;
+          }
+
+          case 'set_primary_tv': {
+            if (!isAllowed('manage_displays') || !currentRoomId) return;
+
+            if (!setPrimaryTv(currentRoomId, message.deviceId)) {
+              sendError(ws, 'device_not_found', 'That TV is no longer connected');
+              return;
+            }
+            broadcastToRoom(currentRoomId, { type: 'devices_updated', devices: getDevicesInRoom(currentRoomId) });
+            break;
+          }
+
+          case 'close_room': {
+            if (!isAllowed('close_room') || !currentRoomId) return;
+
+            const roomId = currentRoomId;
+            await storage.deleteRoom(roomId);
+            closeRoom(roomId, 'closed');
+            break;
+          }
+
+          case 'approve_song':
+          case 'reject_song': {
+            if (!isAllowed('review_songs') || !currentRoomId) return;
+
+            const result = await storage.reviewQueueItem(currentRoomId, message.songId, message.type === 'approve_song');
+            if (!result) {
+              sendError(ws, 'song_not_pending', 'That song is no longer waiting for approval');
+              return;
+            }
+            if (result.startedPlaying) {
+              broadcastCurrentSong(currentRoomId, result.item);
+            }
+            broadcastToRoom(currentRoomId, { type: 'song_reviewed', song: result.item, approved: result.approved });
+            if (result.approved) {
+              broadcastToRoom(currentRoomId, { type: 'song_added', song: result.item });
+            }
+            broadcastToRoom(currentRoomId, { type: 'queue_updated', queue: result.queue });
+            break;
+          }
+
+          case 'update_settings': {
+            if (!isAllowed('change_settings') || !currentRoomId) return;
+
+            const room = await storage.getRoom(currentRoomId);
+            if (!room) return;
+
+            const settings = roomSettingsSchema.parse({ ...parseRoomSettings(room.settings), ...message.settings });
+            await storage.updateRoom(currentRoomId, { settings });
+            broadcastToRoom(currentRoomId, { type: 'settings_updated', settings });
+            break;
+          }
+
+          case 'move_song': {
+            if (!isAllowed('reorder_queue') || !currentRoomId) return;
+
+            const queue = await moveSong(currentRoomId, message.songId, message.toIndex);
+            if (!queue) {
+              sendError(ws, 'song_not_movable', 'Song cannot be moved');
             }
             break;
           }
         }
       } catch (error) {
         console.error('WebSocket message error:', error);
-        ws.send(JSON.stringify({ type: 'error', message: 'Invalid message format' }));
+        sendError(ws, 'internal_error', 'Failed to handle message');
       }
     });
 
     ws.on('close', () => {
-      if (currentRoomId) {
-        // Get device info before removing
-        const devices = roomDevices.get(currentRoomId);
-        let leftDevice: ConnectedDevice | undefined;
-        if (devices) {
-          leftDevice = devices.get(ws);
-          devices.delete(ws);
-          if (devices.size === 0) {
-            roomDevices.delete(currentRoomId);
-          }
-        }
+      if (!currentRoomId) return;
+      const leftDevice = removeConnection(currentRoomId, ws);
+      // Nothing to announce when a reconnect already replaced this socket
+      if (!leftDevice) return;
 
-        const connections = roomConnections.get(currentRoomId);
-        if (connections) {
-          connections.delete(ws);
-          if (connections.size === 0) {
-            roomConnections.delete(currentRoomId);
-          } else if (leftDevice) {
-            // Broadcast device left to remaining connections
-            broadcastToRoom(currentRoomId, { 
-              type: 'device_left', 
-              deviceId: leftDevice.id,
-              deviceName: leftDevice.name
-            });
-          }
-        }
+      announcePresence(currentRoomId);
+      broadcastToRoom(currentRoomId, {
+        type: 'device_left',
+        deviceId: leftDevice.id,
+        deviceName: leftDevice.name
+      });
+      // Another TV takes over when the primary one goes away
+      if (leftDevice.primary) {
+        electPrimaryTv(currentRoomId);
       }
+      recountSkipVotes(currentRoomId, 'room');
     });
   });
 
   // Health check endpoint for Railway
   app.get('/api/health', (_req, res) => {
-    res.json({ status: 'ok', timestamp: new Date().toISOString() });
+    res.json({ status: 'ok', timestamp: new Date().toISOString(), youtubeKeys: getApiKeyHealth() });
+  });
+
+  app.get('/api/admin/search-stats', async (req, res) => {
+    if (!isAdminRequest(req)) {
+      return res.status(403).json({ error: 'Admin token required' });
+    }
+
+    try {
+      res.json(await getSearchStats());
+    } catch (error) {
+      console.error('Error fetching search stats:', error);
+      res.status(500).json({ error: 'Failed to fetch search stats' });
+    }
+  });
+
+  app.post('/api/admin/library/rescan', async (req, res) => {
+    if (!isAdminRequest(req)) {
+      return res.status(403).json({ error: 'Admin token required' });
+    }
+    if (!config.libraryDir) {
+      return res.status(404).json({ error: 'No local library configured' });
+    }
+
+    try {
+      res.json(await reindexLibrary());
+    } catch (error) {
+      console.error('Error indexing library:', error);
+      res.status(500).json({ error: 'Failed to index library' });
+    }
   });
 
   app.post('/api/rooms', async (req, res) => {
     try {
+      const validation = createRoomSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Invalid room options', details: validation.error.issues });
+      }
+
       let code = generateRoomCode();
       let existingRoom = await storage.getRoomByCode(code);
       while (existingRoom) {
@@ -247,10 +921,13 @@ export async function registerRoutes(
         currentVideoId: null,
         currentVideoTitle: null,
         currentVideoThumbnail: null,
-        isPlaying: false
+        isPlaying: false,
+        hostSecret: randomBytes(24).toString('base64url'),
+        pin: validation.data.pin ?? null
       });
 
-      res.json(room);
+      // The only response that carries the host secret
+      res.json({ ...toPublicRoom(room), hostSecret: room.hostSecret });
     } catch (error) {
       console.error('Error creating room:', error);
       res.status(500).json({ error: 'Failed to create room' });
@@ -263,61 +940,135 @@ export async function registerRoutes(
       if (!room) {
         return res.status(404).json({ error: 'Room not found' });
       }
-      
+      if (!(await canViewRoom(req, room))) {
+        return res.status(403).json({ error: 'Room PIN required', code: 'pin_required' });
+      }
+
       const queue = await storage.getQueueByRoomId(room.id);
-      res.json({ room, queue });
+      res.json({ room: toPublicRoom(room), queue });
     } catch (error) {
       console.error('Error fetching room:', error);
       res.status(500).json({ error: 'Failed to fetch room' });
     }
   });
 
-  app.get('/api/youtube/search', async (req, res) => {
+  // A TV that reloaded checks it still owns its room before rejoining as
+  // host. Counts as activity, so the room isn't swept meanwhile.
+  app.post('/api/rooms/:code/reclaim', async (req, res) => {
+    try {
+      const validation = reclaimRoomSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Host secret required', details: validation.error.issues });
+      }
+
+      const room = await storage.getRoomByCode(req.params.code.toUpperCase());
+      if (!room) {
+        return res.status(404).json({ error: 'Room not found' });
+      }
+      if (!secretsMatch(room.hostSecret, validation.data.hostSecret)) {
+        return res.status(403).json({ error: 'Host secret does not match' });
+      }
+
+      await storage.touchRooms([room.id]);
+      const queue = await storage.getQueueByRoomId(room.id);
+      res.json({ room: toPublicRoom(room), queue });
+    } catch (error) {
+      console.error('Error reclaiming room:', error);
+      res.status(500).json({ error: 'Failed to reclaim room' });
+    }
+  });
+
+  app.get('/api/rooms/:code/history', async (req, res) => {
+    try {
+      const room = await storage.getRoomByCode(req.params.code.toUpperCase());
+      if (!room) {
+        return res.status(404).json({ error: 'Room not found' });
+      }
+      if (!(await canViewRoom(req, room))) {
+        return res.status(403).json({ error: 'Room PIN required', code: 'pin_required' });
+      }
+
+      const history = await storage.getPlayHistory(room.id);
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching history:', error);
+      res.status(500).json({ error: 'Failed to fetch history' });
+    }
+  });
+
+  app.get('/api/rooms/:code/leaderboard', async (req, res) => {
+    try {
+      const room = await storage.getRoomByCode(req.params.code.toUpperCase());
+      if (!room) {
+        return res.status(404).json({ error: 'Room not found' });
+      }
+      if (!(await canViewRoom(req, room))) {
+        return res.status(403).json({ error: 'Room PIN required', code: 'pin_required' });
+      }
+
+      const history = await storage.getPlayHistory(room.id);
+      res.json(buildLeaderboard(history));
+    } catch (error) {
+      console.error('Error fetching leaderboard:', error);
+      res.status(500).json({ error: 'Failed to fetch leaderboard' });
+    }
+  });
+
+  // /api/youtube/search is the original path, kept for older clients
+  app.get(['/api/search', '/api/youtube/search'], async (req, res) => {
     try {
       const query = req.query.q as string;
       if (!query) {
         return res.status(400).json({ error: 'Search query required' });
       }
 
-      const apiKey = getNextApiKey();
-      if (!apiKey) {
-        return res.status(500).json({ error: 'YouTube API key not configured' });
+      const results = await searchProvider.search(query);
+      res.json(results);
+    } catch (error) {
+      console.error('Error searching songs:', error);
+      if (error instanceof NoHealthyKeyError) {
+        return res.status(503).json({ error: 'Song search is temporarily unavailable', retryAt: error.retryAt });
       }
+      res.status(500).json({ error: 'Failed to search songs' });
+    }
+  });
 
-      console.log(`Using YouTube API key index: ${(currentKeyIndex === 0 ? apiKeys.length : currentKeyIndex) - 1} of ${apiKeys.length}`);
-
-      const searchQuery = `${query} karaoke`;
-      const searchUrl = `https://www.googleapis.com/youtube/v3/search?part=snippet&type=video&maxResults=20&q=${encodeURIComponent(searchQuery)}&key=${apiKey}`;
-      
-      const searchResponse = await fetch(searchUrl);
-      if (!searchResponse.ok) {
-        throw new Error(`YouTube API error: ${searchResponse.status}`);
+  // Always searches the local library, whatever SEARCH_PROVIDERS says, so
+  // the mobile app can list local songs next to YouTube results
+  app.get('/api/library/search', async (req, res) => {
+    try {
+      const query = req.query.q as string;
+      if (!query) {
+        return res.status(400).json({ error: 'Search query required' });
       }
-      
-      const searchData = await searchResponse.json();
-      
-      const videoIds = searchData.items.map((item: any) => item.id.videoId).join(',');
-      const detailsUrl = `https://www.googleapis.com/youtube/v3/videos?part=contentDetails,snippet&id=${videoIds}&key=${apiKey}`;
-      
-      const detailsResponse = await fetch(detailsUrl);
-      if (!detailsResponse.ok) {
-        throw new Error(`YouTube API error: ${detailsResponse.status}`);
+      if (!config.libraryDir) {
+        return res.json([]);
       }
-      
-      const detailsData = await detailsResponse.json();
-      
-      const results = detailsData.items.map((item: any) => ({
-        videoId: item.id,
-        title: item.snippet.title,
-        thumbnail: item.snippet.thumbnails.medium?.url || item.snippet.thumbnails.default?.url,
-        channelTitle: item.snippet.channelTitle,
-        duration: parseDuration(item.contentDetails.duration)
-      }));
 
-      res.json(results);
+      res.json(await librarySearch.search(query));
     } catch (error) {
-      console.error('Error searching YouTube:', error);
-      res.status(500).json({ error: 'Failed to search YouTube' });
+      console.error('Error searching library:', error);
+      res.status(500).json({ error: 'Failed to search library' });
+    }
+  });
+
+  // Serves a library file to the TV's <video> element. sendFile answers
+  // Range requests with 206 partial content, so the TV can seek.
+  app.get('/api/library/songs/:id/stream', async (req, res, next) => {
+    try {
+      const song = config.libraryDir ? await storage.getLibrarySong(req.params.id) : undefined;
+      if (!song || !config.libraryDir) {
+        return res.status(404).json({ error: 'Song not found' });
+      }
+
+      res.sendFile(song.path, { root: config.libraryDir }, (error) => {
+        if (error && !res.headersSent) {
+          console.error('Error streaming library song:', error);
+          res.status(404).json({ error: 'Song file not found' });
+        }
+      });
+    } catch (error) {
+      next(error);
     }
   });
 
@@ -328,56 +1079,105 @@ export async function registerRoutes(
         return res.status(404).json({ error: 'Room not found' });
       }
 
+      const session = await getRequestSession(req, room);
+      if (!session) {
+        return res.status(401).json({ error: 'Join the room first' });
+      }
+      if (!can(session.role, 'add_song')) {
+        return res.status(403).json({ error: 'Not allowed to add songs' });
+      }
+
       const validation = addToQueueSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({ error: 'Missing required fields', details: validation.error.issues });
       }
       
       const { videoId, title, thumbnail, channelTitle, duration } = validation.data;
+      const source = validation.data.source ?? mediaSourceOf(videoId);
+      if (source !== mediaSourceOf(videoId)) {
+        return res.status(400).json({ error: 'Video id does not match its source' });
+      }
+      const localSongId = getLocalSongId(videoId);
+      if (localSongId && !(await storage.getLibrarySong(localSongId))) {
+        return res.status(400).json({ error: 'Song is not in the local library' });
+      }
 
-      const maxPosition = await storage.getMaxPosition(room.id);
-      const isFirstSong = maxPosition === 0;
-      
-      const queueItem = await storage.addToQueue({
-        roomId: room.id,
+      const result = await storage.appendToQueue(room.id, {
         videoId,
         title,
         thumbnail,
         channelTitle: channelTitle || null,
         duration: duration || null,
-        position: maxPosition + 1,
-        status: isFirstSong ? 'playing' : 'waiting'
-      });
-
-      if (isFirstSong) {
-        await storage.updateRoom(room.id, {
-          currentVideoId: videoId,
-          currentVideoTitle: title,
-          currentVideoThumbnail: thumbnail,
-          isPlaying: true
-        });
+        source,
+        deviceId: session.deviceId,
+        singerName: session.name,
+      }, { skipApproval: can(session.role, 'review_songs') });
+      if (!result) {
+        return res.status(404).json({ error: 'Room not found' });
+      }
+      if (!result.added) {
+        return sendQueueRejection(res, result.rejection);
+      }
 
-        broadcastToRoom(room.id, {
-          type: 'current_song',
-          videoId,
-          title,
-          thumbnail
-        });
-        broadcastToRoom(room.id, { type: 'playback_state', isPlaying: true });
+      if (result.startedPlaying) {
+        broadcastCurrentSong(room.id, result.item);
       }
 
-      const queue = await storage.getQueueByRoomId(room.id);
-      
-      broadcastToRoom(room.id, { type: 'song_added', song: queueItem });
-      broadcastToRoom(room.id, { type: 'queue_updated', queue });
+      // A pending song is only announced once the host approves it
+      if (result.item.status !== 'pending') {
+        broadcastToRoom(room.id, { type: 'song_added', song: result.item });
+      }
+      broadcastToRoom(room.id, { type: 'queue_updated', queue: result.queue });
 
-      res.json(queueItem);
+      res.json({ ...result.item, duplicate: result.duplicate });
     } catch (error) {
       console.error('Error adding to queue:', error);
       res.status(500).json({ error: 'Failed to add to queue' });
     }
   });
 
+  app.patch('/api/rooms/:code/queue/:itemId', async (req, res) => {
+    try {
+      const room = await storage.getRoomByCode(req.params.code.toUpperCase());
+      if (!room) {
+        return res.status(404).json({ error: 'Room not found' });
+      }
+
+      const session = await getRequestSession(req, room);
+      if (!session) {
+        return res.status(401).json({ error: 'Join the room first' });
+      }
+      if (!can(session.role, 'reorder_queue')) {
+        return res.status(403).json({ error: 'Only the host can reorder the queue' });
+      }
+
+      const validation = moveQueueItemSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Provide toIndex or playNext', details: validation.error.issues });
+      }
+
+      const currentQueue = await storage.getQueueByRoomId(room.id);
+      const item = currentQueue.find(queueItem => queueItem.id === req.params.itemId);
+      if (!item) {
+        return res.status(404).json({ error: 'Queue item not found' });
+      }
+      if (item.status === 'playing') {
+        return res.status(409).json({ error: 'The playing song cannot be moved' });
+      }
+
+      const toIndex = 'playNext' in validation.data ? 0 : validation.data.toIndex;
+      const queue = await moveSong(room.id, item.id, toIndex);
+      if (!queue) {
+        return res.status(409).json({ error: 'Song cannot be moved' });
+      }
+
+      res.json(queue);
+    } catch (error) {
+      console.error('Error moving queue item:', error);
+      res.status(500).json({ error: 'Failed to move queue item' });
+    }
+  });
+
   app.delete('/api/rooms/:code/queue/:itemId', async (req, res) => {
     try {
       const room = await storage.getRoomByCode(req.params.code.toUpperCase());
@@ -385,54 +1185,39 @@ export async function registerRoutes(
         return res.status(404).json({ error: 'Room not found' });
       }
 
+      const session = await getRequestSession(req, room);
+      if (!session) {
+        return res.status(401).json({ error: 'Join the room first' });
+      }
+
       const queue = await storage.getQueueByRoomId(room.id);
-      const itemToRemove = queue.find(item => item.id === req.params.itemId);
-      
-      if (!itemToRemove) {
+      const item = queue.find(queueItem => queueItem.id === req.params.itemId);
+      if (!item) {
         return res.status(404).json({ error: 'Queue item not found' });
       }
 
-      const wasPlaying = itemToRemove.status === 'playing';
-      
-      await storage.removeFromQueue(req.params.itemId);
-      
-      if (wasPlaying) {
-        const nextItem = await storage.getNextInQueue(room.id);
-        if (nextItem) {
-          await storage.updateQueueItem(nextItem.id, { status: 'playing' });
-          await storage.updateRoom(room.id, {
-            currentVideoId: nextItem.videoId,
-            currentVideoTitle: nextItem.title,
-            currentVideoThumbnail: nextItem.thumbnail,
-            isPlaying: true
-          });
-          broadcastToRoom(room.id, {
-            type: 'current_song',
-            videoId: nextItem.videoId,
-            title: nextItem.title,
-            thumbnail: nextItem.thumbnail
-          });
-          broadcastToRoom(room.id, { type: 'playback_state', isPlaying: true });
-        } else {
-          await storage.updateRoom(room.id, {
-            currentVideoId: null,
-            currentVideoTitle: null,
-            currentVideoThumbnail: null,
-            isPlaying: false
-          });
-          broadcastToRoom(room.id, {
-            type: 'current_song',
-            videoId: null,
-            title: null,
-            thumbnail: null
-          });
-          broadcastToRoom(room.id, { type: 'playback_state', isPlaying: false });
-        }
+      // Removing the playing song skips it, which stays the host's call even
+      // when it is the guest's own song
+      const action: Action = item.deviceId === session.deviceId && item.status !== 'playing'
+        ? 'remove_own_song'
+        : 'remove_any_song';
+      if (!can(session.role, action)) {
+        return res.status(403).json({
+          error: item.status === 'playing' ? 'Only the host can remove the playing song' : 'You can only remove your own songs',
+        });
+      }
+
+      const result = await storage.advanceRoom(room.id, { removeItemId: item.id });
+      if (!result?.removed) {
+        return res.status(404).json({ error: 'Queue item not found' });
+      }
+
+      if (result.advanced) {
+        await broadcastAdvance(room.id, result);
       }
 
-      const updatedQueue = await storage.getQueueByRoomId(room.id);
       broadcastToRoom(room.id, { type: 'song_removed', songId: req.params.itemId });
-      broadcastToRoom(room.id, { type: 'queue_updated', queue: updatedQueue });
+      broadcastToRoom(room.id, { type: 'queue_updated', queue: result.queue });
 
       res.json({ success: true });
     } catch (error) {
@@ -443,17 +1228,3 @@ export async function registerRoutes(
 
   return httpServer;
 }
-
-function parseDuration(duration: string): string {
-  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-  if (!match) return '0:00';
-  
-  const hours = parseInt(match[1] || '0');
-  const minutes = parseInt(match[2] || '0');
-  const seconds = parseInt(match[3] || '0');
-  
-  if (hours > 0) {
-    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-  }
-  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-}
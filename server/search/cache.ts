@@ -0,0 +1,138 @@
+import { eq, and, gt, lte, count } from "drizzle-orm";
+import { searchCache, type VideoSearchResult } from "@shared/schema";
+import { db } from "../db";
+import type { SearchProvider } from "./provider";
+
+// Keeps at most this many queries in memory; expired entries go first, then
+// the oldest
+const MAX_MEMORY_ENTRIES = 1000;
+
+export interface SearchCacheStore {
+  get(key: string): Promise<VideoSearchResult[] | undefined>;
+  set(key: string, results: VideoSearchResult[], ttlMs: number): Promise<void>;
+  size(): Promise<number>;
+}
+
+export class MemorySearchCacheStore implements SearchCacheStore {
+  private entries = new Map<string, { results: VideoSearchResult[]; expiresAt: number }>();
+
+  async get(key: string): Promise<VideoSearchResult[] | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.results;
+  }
+
+  async set(key: string, results: VideoSearchResult[], ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { results, expiresAt: Date.now() + ttlMs });
+    if (this.entries.size > MAX_MEMORY_ENTRIES) {
+      const now = Date.now();
+      for (const [entryKey, entry] of Array.from(this.entries)) {
+        if (entry.expiresAt <= now) this.entries.delete(entryKey);
+      }
+      // Maps iterate in insertion order, so the first keys are the oldest
+      const excess = Array.from(this.entries.keys()).slice(0, this.entries.size - MAX_MEMORY_ENTRIES);
+      excess.forEach(entryKey => this.entries.delete(entryKey));
+    }
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+}
+
+// Shares the cache across restarts and server instances
+export class DatabaseSearchCacheStore implements SearchCacheStore {
+  async get(key: string): Promise<VideoSearchResult[] | undefined> {
+    const [entry] = await db
+      .select()
+      .from(searchCache)
+      .where(and(eq(searchCache.key, key), gt(searchCache.expiresAt, new Date())));
+    return entry?.results;
+  }
+
+  async set(key: string, results: VideoSearchResult[], ttlMs: number): Promise<void> {
+    const expiresAt = new Date(Date.now() + ttlMs);
+    await db
+      .insert(searchCache)
+      .values({ key, results, expiresAt })
+      .onConflictDoUpdate({ target: searchCache.key, set: { results, expiresAt } });
+    await db.delete(searchCache).where(lte(searchCache.expiresAt, new Date()));
+  }
+
+  async size(): Promise<number> {
+    const [{ entries }] = await db
+      .select({ entries: count() })
+      .from(searchCache)
+      .where(gt(searchCache.expiresAt, new Date()));
+    return entries;
+  }
+}
+
+export interface SearchCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  ttlMinutes: number;
+}
+
+// Case and spacing don't change what a provider returns, but diacritics do:
+// "ma", "má" and "mà" are different words, so they keep separate entries
+function cacheKeyText(query: string): string {
+  return query.normalize("NFC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+// Answers repeated searches from the cache. Queries are normalized, so
+// "Em Của Ngày Hôm Qua " and "em của ngày hôm qua" share an entry. A broken
+// cache store never fails a search; it just counts as a miss.
+export class CachedSearchProvider implements SearchProvider {
+  readonly name: string;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private inner: SearchProvider,
+    private store: SearchCacheStore,
+    private ttlMs: number,
+  ) {
+    this.name = inner.name;
+  }
+
+  async search(query: string): Promise<VideoSearchResult[]> {
+    const key = `${this.inner.name}:${cacheKeyText(query)}`;
+
+    let cached: VideoSearchResult[] | undefined;
+    try {
+      cached = await this.store.get(key);
+    } catch (error) {
+      console.error('Search cache read failed:', error);
+    }
+    if (cached) {
+      this.hits++;
+      return cached;
+    }
+
+    this.misses++;
+    const results = await this.inner.search(query);
+    try {
+      await this.store.set(key, results, this.ttlMs);
+    } catch (error) {
+      console.error('Search cache write failed:', error);
+    }
+    return results;
+  }
+
+  async stats(): Promise<SearchCacheStats> {
+    let entries = 0;
+    try {
+      entries = await this.store.size();
+    } catch (error) {
+      console.error('Search cache size failed:', error);
+    }
+    return { hits: this.hits, misses: this.misses, entries, ttlMinutes: this.ttlMs / 60000 };
+  }
+}
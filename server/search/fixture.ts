@@ -0,0 +1,46 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+import { videoSearchResultSchema, type VideoSearchResult } from "@shared/schema";
+import { matchesQuery, type SearchProvider } from "./provider";
+
+// A few well-known songs so the fixture provider works out of the box
+const defaultFixtures: VideoSearchResult[] = [
+  {
+    videoId: "fixture-em-cua-ngay-hom-qua",
+    title: "Em Của Ngày Hôm Qua - Sơn Tùng M-TP (Karaoke)",
+    thumbnail: "https://i.ytimg.com/vi/fixture-1/mqdefault.jpg",
+    channelTitle: "Fixture Karaoke",
+    duration: "3:50",
+  },
+  {
+    videoId: "fixture-bohemian-rhapsody",
+    title: "Bohemian Rhapsody - Queen (Karaoke Version)",
+    thumbnail: "https://i.ytimg.com/vi/fixture-2/mqdefault.jpg",
+    channelTitle: "Fixture Karaoke",
+    duration: "5:55",
+  },
+  {
+    videoId: "fixture-let-it-go",
+    title: "Let It Go - Frozen (Karaoke)",
+    thumbnail: "https://i.ytimg.com/vi/fixture-3/mqdefault.jpg",
+    channelTitle: "Fixture Karaoke",
+    duration: "3:44",
+  },
+];
+
+export function loadFixtures(file: string | null): VideoSearchResult[] {
+  if (!file) return defaultFixtures;
+  return z.array(videoSearchResultSchema).parse(JSON.parse(readFileSync(file, "utf-8")));
+}
+
+// Answers searches from a fixed list, for tests and demos that must not hit
+// the network
+export class FixtureSearchProvider implements SearchProvider {
+  readonly name = "fixture";
+
+  constructor(private results: VideoSearchResult[]) {}
+
+  async search(query: string): Promise<VideoSearchResult[]> {
+    return this.results.filter(result => matchesQuery(`${result.title} ${result.channelTitle}`, query));
+  }
+}
@@ -0,0 +1,87 @@
+import type { VideoSearchResult } from "@shared/schema";
+import { config, type SearchProviderName } from "../config";
+import type { SearchProvider } from "./provider";
+import { YouTubeSearchProvider } from "./youtube";
+import { LocalLibrarySearchProvider } from "./local";
+import { FixtureSearchProvider, loadFixtures } from "./fixture";
+import { CachedSearchProvider, MemorySearchCacheStore, DatabaseSearchCacheStore, type SearchCacheStats } from "./cache";
+import { QuotaTracker, type KeyUsageReport } from "./quota";
+import { ApiKeyPool, type KeyPoolHealth, type KeyStatusReport } from "./keyPool";
+
+export type { SearchProvider } from "./provider";
+export { NoHealthyKeyError } from "./keyPool";
+
+// Tries each provider in order and returns the first one that answers, so a
+// venue can fall back to its local library when YouTube is unreachable
+export class FallbackSearchProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(private providers: SearchProvider[]) {
+    this.name = providers.map(provider => provider.name).join(",");
+  }
+
+  async search(query: string): Promise<VideoSearchResult[]> {
+    let lastError: unknown;
+    for (const provider of this.providers) {
+      try {
+        return await provider.search(query);
+      } catch (error) {
+        console.warn(`Search provider ${provider.name} failed:`, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+}
+
+const quotaTracker = new QuotaTracker(config.youtubeApiKeys);
+const apiKeyPool = new ApiKeyPool(config.youtubeApiKeys);
+
+// Only YouTube is cached: it costs quota, while the other providers answer
+// from memory or the library index
+const youtubeSearch = new CachedSearchProvider(
+  new YouTubeSearchProvider(apiKeyPool, quotaTracker),
+  config.searchCacheStore === "database" ? new DatabaseSearchCacheStore() : new MemorySearchCacheStore(),
+  config.searchCacheTtlMs,
+);
+
+export const librarySearch = new LocalLibrarySearchProvider(config.libraryDir);
+
+function createProvider(name: SearchProviderName): SearchProvider {
+  switch (name) {
+    case "youtube":
+      return youtubeSearch;
+    case "local":
+      return librarySearch;
+    case "fixture":
+      return new FixtureSearchProvider(loadFixtures(config.searchFixturesFile));
+  }
+}
+
+export function createSearchProvider(names: SearchProviderName[]): SearchProvider {
+  const providers = names.map(createProvider);
+  return providers.length === 1 ? providers[0] : new FallbackSearchProvider(providers);
+}
+
+export const searchProvider = createSearchProvider(config.searchProviders);
+
+export interface SearchStats {
+  providers: SearchProviderName[];
+  youtubeCache: SearchCacheStats & { store: string };
+  quota: KeyUsageReport[];
+  keys: KeyStatusReport[];
+}
+
+export async function getSearchStats(): Promise<SearchStats> {
+  return {
+    providers: config.searchProviders,
+    youtubeCache: { ...await youtubeSearch.stats(), store: config.searchCacheStore },
+    quota: quotaTracker.report(),
+    keys: apiKeyPool.report(),
+  };
+}
+
+// Counts only, safe for the public health check
+export function getApiKeyHealth(): KeyPoolHealth {
+  return apiKeyPool.health();
+}
@@ -0,0 +1,187 @@
+import { maskApiKey, nextQuotaReset } from "./quota";
+
+// Error reasons YouTube reports in error.errors[].reason
+const QUOTA_REASONS = new Set(["quotaExceeded", "dailyLimitExceeded"]);
+const RATE_LIMIT_REASONS = new Set(["rateLimitExceeded", "userRateLimitExceeded"]);
+const INVALID_KEY_REASONS = new Set(["keyInvalid", "keyExpired", "accessNotConfigured", "ipRefererBlocked"]);
+
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+// A failed YouTube Data API call, with the reason parsed from its body
+export class YouTubeApiError extends Error {
+  constructor(readonly status: number, readonly reason: string | null, message: string) {
+    super(message);
+    this.name = "YouTubeApiError";
+  }
+
+  static async fromResponse(response: Response): Promise<YouTubeApiError> {
+    let reason: string | null = null;
+    let message = `YouTube API error: ${response.status}`;
+    try {
+      const body = await response.json();
+      reason = body?.error?.errors?.[0]?.reason ?? body?.error?.status ?? null;
+      if (body?.error?.message) {
+        message = `YouTube API error ${response.status}: ${body.error.message}`;
+      }
+    } catch {
+      // Not JSON; the status is all we have
+    }
+    return new YouTubeApiError(response.status, reason, message);
+  }
+}
+
+// Thrown when every key is exhausted, backing off or invalid
+export class NoHealthyKeyError extends Error {
+  constructor(readonly retryAt: Date | null) {
+    super(retryAt ? `No YouTube API key available until ${retryAt.toISOString()}` : "No YouTube API key available");
+    this.name = "NoHealthyKeyError";
+  }
+}
+
+export type KeyState = "healthy" | "exhausted" | "backing_off" | "invalid";
+
+interface KeyStatus {
+  key: string;
+  // The key is skipped until this time; null when it's usable
+  unavailableUntil: number | null;
+  state: KeyState;
+  consecutiveFailures: number;
+  lastError: string | null;
+}
+
+export interface KeyStatusReport {
+  key: string;
+  state: KeyState;
+  unavailableUntil: string | null;
+  lastError: string | null;
+}
+
+export interface KeyPoolHealth {
+  total: number;
+  healthy: number;
+  exhausted: number;
+  backingOff: number;
+  invalid: number;
+}
+
+// Hands out YouTube API keys round-robin, skipping keys that ran out of
+// quota (until the Pacific-midnight reset), hit rate limits (with
+// exponential backoff) or were rejected as invalid (until restart).
+export class ApiKeyPool {
+  private keys: KeyStatus[];
+  private nextIndex = 0;
+
+  constructor(apiKeys: string[]) {
+    this.keys = apiKeys.map(key => ({
+      key,
+      unavailableUntil: null,
+      state: "healthy",
+      consecutiveFailures: 0,
+      lastError: null,
+    }));
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  // Keys whose exhaustion or backoff has run out become healthy again
+  private refresh(now = Date.now()) {
+    for (const status of this.keys) {
+      if (status.unavailableUntil !== null && status.unavailableUntil <= now) {
+        status.unavailableUntil = null;
+        status.state = "healthy";
+      }
+    }
+  }
+
+  // The next usable key, or null when none is; `exclude` skips keys already
+  // tried for the current request
+  acquire(exclude: ReadonlySet<string> = new Set()): string | null {
+    this.refresh();
+    for (let offset = 0; offset < this.keys.length; offset++) {
+      const index = (this.nextIndex + offset) % this.keys.length;
+      const status = this.keys[index];
+      if (status.state === "healthy" && !exclude.has(status.key)) {
+        this.nextIndex = (index + 1) % this.keys.length;
+        return status.key;
+      }
+    }
+    return null;
+  }
+
+  // When the earliest unavailable key comes back, for error messages
+  nextAvailableAt(): Date | null {
+    const times = this.keys
+      .map(status => status.unavailableUntil)
+      .filter((time): time is number => time !== null);
+    return times.length > 0 ? new Date(Math.min(...times)) : null;
+  }
+
+  reportSuccess(key: string) {
+    const status = this.keys.find(candidate => candidate.key === key);
+    if (status) {
+      status.consecutiveFailures = 0;
+    }
+  }
+
+  // Records a failed call. Returns true when the failure was specific to the
+  // key, so the request is worth retrying with another one.
+  reportFailure(key: string, error: YouTubeApiError): boolean {
+    const status = this.keys.find(candidate => candidate.key === key);
+    if (!status) return false;
+
+    status.lastError = error.reason ?? String(error.status);
+    const reason = error.reason ?? "";
+
+    if (QUOTA_REASONS.has(reason)) {
+      status.state = "exhausted";
+      status.unavailableUntil = nextQuotaReset().getTime();
+      console.warn(`YouTube API key ${maskApiKey(key)} is out of quota until ${new Date(status.unavailableUntil).toISOString()}`);
+      return true;
+    }
+
+    // An unknown key comes back as a generic 400 badRequest
+    const badKey = error.status === 400 && reason === "badRequest" && /API key/i.test(error.message);
+    if (INVALID_KEY_REASONS.has(reason) || badKey) {
+      status.state = "invalid";
+      status.unavailableUntil = null;
+      console.error(`YouTube API key ${maskApiKey(key)} was rejected (${status.lastError}); disabled until restart`);
+      return true;
+    }
+
+    if (RATE_LIMIT_REASONS.has(reason) || error.status === 429 || error.status >= 500) {
+      status.consecutiveFailures++;
+      const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (status.consecutiveFailures - 1));
+      status.state = "backing_off";
+      status.unavailableUntil = Date.now() + backoff;
+      console.warn(`YouTube API key ${maskApiKey(key)} backing off for ${backoff / 1000}s (${status.lastError})`);
+      return true;
+    }
+
+    return false;
+  }
+
+  health(): KeyPoolHealth {
+    this.refresh();
+    const count = (state: KeyState) => this.keys.filter(status => status.state === state).length;
+    return {
+      total: this.keys.length,
+      healthy: count("healthy"),
+      exhausted: count("exhausted"),
+      backingOff: count("backing_off"),
+      invalid: count("invalid"),
+    };
+  }
+
+  report(): KeyStatusReport[] {
+    this.refresh();
+    return this.keys.map(status => ({
+      key: maskApiKey(status.key),
+      state: status.state,
+      unavailableUntil: status.unavailableUntil === null ? null : new Date(status.unavailableUntil).toISOString(),
+      lastError: status.lastError,
+    }));
+  }
+}
@@ -0,0 +1,41 @@
+import type { LibrarySong, VideoSearchResult } from "@shared/schema";
+import { toLocalVideoId, formatDuration } from "@shared/library";
+import { storage } from "../storage";
+import { normalizeSearchText, type SearchProvider } from "./provider";
+
+const MAX_RESULTS = 20;
+
+export const LOCAL_THUMBNAIL =
+  "data:image/svg+xml," +
+  encodeURIComponent(
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 9"><rect width="16" height="9" fill="#27272a"/><path d="M6.5 2.5v4l3.5-2z" fill="#a1a1aa"/></svg>',
+  );
+
+export function toSearchResult(song: LibrarySong): VideoSearchResult {
+  return {
+    videoId: toLocalVideoId(song.id),
+    title: song.title,
+    thumbnail: LOCAL_THUMBNAIL,
+    channelTitle: song.artist ?? "Local library",
+    duration: song.durationSeconds ? formatDuration(song.durationSeconds) : undefined,
+    source: "local",
+  };
+}
+
+// Searches the indexed local library (see server/library/indexer.ts), for
+// venues without internet or YouTube quota
+export class LocalLibrarySearchProvider implements SearchProvider {
+  readonly name = "local";
+
+  constructor(private libraryDir: string | null) {}
+
+  async search(query: string): Promise<VideoSearchResult[]> {
+    if (!this.libraryDir) {
+      throw new Error("LIBRARY_DIR is not configured");
+    }
+    const words = normalizeSearchText(query).split(" ").filter(Boolean);
+    if (words.length === 0) return [];
+    const songs = await storage.searchLibrarySongs(words, MAX_RESULTS);
+    return songs.map(toSearchResult);
+  }
+}
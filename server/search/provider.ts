@@ -0,0 +1,30 @@
+import type { VideoSearchResult } from "@shared/schema";
+
+// A source of songs for the mobile search tab. Providers throw when they
+// can't search at all (no network, no quota) so a fallback can take over.
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string): Promise<VideoSearchResult[]>;
+}
+
+// Lowercases and strips diacritics so "Em của ngày hôm qua" matches
+// "em cua ngay hom qua"
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// True when every word of the query appears somewhere in the text
+export function matchesQuery(text: string, query: string): boolean {
+  const haystack = normalizeSearchText(text);
+  return normalizeSearchText(query)
+    .split(" ")
+    .filter(Boolean)
+    .every(word => haystack.includes(word));
+}
@@ -0,0 +1,83 @@
+// YouTube Data API quota costs in units per call
+export const QUOTA_COST = {
+  search: 100,
+  videos: 1,
+} as const;
+
+// YouTube quotas reset at midnight Pacific time, so usage is counted per
+// Pacific calendar day
+export function quotaDay(date = new Date()): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/Los_Angeles",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+// When the quota day that `date` falls in ends. Midnight Pacific is 07:00 or
+// 08:00 UTC depending on daylight saving, so try both and keep the one
+// where the quota day actually changes.
+export function nextQuotaReset(date = new Date()): Date {
+  const day = quotaDay(date);
+  const [year, month, dayOfMonth] = day.split("-").map(Number);
+  for (const utcHour of [7, 8]) {
+    const candidate = new Date(Date.UTC(year, month - 1, dayOfMonth + 1, utcHour));
+    if (quotaDay(candidate) !== day && quotaDay(new Date(candidate.getTime() - 1)) === day) {
+      return candidate;
+    }
+  }
+  return new Date(date.getTime() + 24 * 60 * 60 * 1000);
+}
+
+// Enough of a key to tell them apart in logs and the admin endpoint
+export function maskApiKey(key: string): string {
+  return `…${key.slice(-4)}`;
+}
+
+interface KeyUsage {
+  day: string;
+  units: number;
+  calls: number;
+}
+
+export interface KeyUsageReport {
+  key: string;
+  day: string;
+  unitsUsed: number;
+  calls: number;
+}
+
+// Counts quota units spent per API key for the current quota day
+export class QuotaTracker {
+  private usage = new Map<string, KeyUsage>();
+
+  constructor(private apiKeys: string[]) {}
+
+  private current(apiKey: string): KeyUsage {
+    const today = quotaDay();
+    let usage = this.usage.get(apiKey);
+    if (!usage || usage.day !== today) {
+      usage = { day: today, units: 0, calls: 0 };
+      this.usage.set(apiKey, usage);
+    }
+    return usage;
+  }
+
+  record(apiKey: string, units: number) {
+    const usage = this.current(apiKey);
+    usage.units += units;
+    usage.calls += 1;
+  }
+
+  unitsUsed(apiKey: string): number {
+    return this.current(apiKey).units;
+  }
+
+  report(): KeyUsageReport[] {
+    return this.apiKeys.map(apiKey => {
+      const usage = this.current(apiKey);
+      return { key: maskApiKey(apiKey), day: usage.day, unitsUsed: usage.units, calls: usage.calls };
+    });
+  }
+}
@@ -0,0 +1,112 @@
+import type { VideoSearchResult } from "@shared/schema";
+import type { SearchProvider } from "./provider";
+import { QUOTA_COST, type QuotaTracker } from "./quota";
+import { YouTubeApiError, NoHealthyKeyError, type ApiKeyPool } from "./keyPool";
+
+const API_BASE = "https://www.googleapis.com/youtube/v3";
+
+// Titles and durations of a video practically never change
+const DETAILS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_DETAILS_ENTRIES = 5000;
+
+// Searches YouTube for karaoke versions of a song. Each search costs a
+// search.list call, plus a videos.list call for durations of videos not
+// seen before.
+export class YouTubeSearchProvider implements SearchProvider {
+  readonly name = "youtube";
+  private details = new Map<string, { result: VideoSearchResult; expiresAt: number }>();
+
+  constructor(private keys: ApiKeyPool, private quota: QuotaTracker) {}
+
+  // Calls the API with the next healthy key. When a key is out of quota,
+  // rate limited or rejected, the same call is retried with the next one.
+  private async callApi(endpoint: keyof typeof QUOTA_COST, params: string): Promise<any> {
+    if (this.keys.size === 0) {
+      throw new Error("YouTube API key not configured");
+    }
+
+    const tried = new Set<string>();
+    let apiKey: string | null;
+    while ((apiKey = this.keys.acquire(tried))) {
+      tried.add(apiKey);
+      // YouTube charges for failed calls too
+      this.quota.record(apiKey, QUOTA_COST[endpoint]);
+      const response = await fetch(`${API_BASE}/${endpoint}?${params}&key=${apiKey}`);
+      if (response.ok) {
+        this.keys.reportSuccess(apiKey);
+        return response.json();
+      }
+
+      const error = await YouTubeApiError.fromResponse(response);
+      if (!this.keys.reportFailure(apiKey, error)) {
+        throw error;
+      }
+    }
+    throw new NoHealthyKeyError(this.keys.nextAvailableAt());
+  }
+
+  private cachedDetails(videoId: string): VideoSearchResult | undefined {
+    const entry = this.details.get(videoId);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.details.delete(videoId);
+      return undefined;
+    }
+    return entry.result;
+  }
+
+  private rememberDetails(result: VideoSearchResult) {
+    this.details.delete(result.videoId);
+    this.details.set(result.videoId, { result, expiresAt: Date.now() + DETAILS_TTL_MS });
+    if (this.details.size > MAX_DETAILS_ENTRIES) {
+      this.details.delete(this.details.keys().next().value!);
+    }
+  }
+
+  async search(query: string): Promise<VideoSearchResult[]> {
+    const searchQuery = `${query} karaoke`;
+    const searchData = await this.callApi(
+      "search",
+      `part=snippet&type=video&maxResults=20&q=${encodeURIComponent(searchQuery)}`,
+    );
+
+    const videoIds: string[] = searchData.items.map((item: any) => item.id.videoId);
+    const missing = videoIds.filter(videoId => !this.cachedDetails(videoId));
+    if (missing.length > 0) {
+      const detailsData = await this.callApi(
+        "videos",
+        `part=contentDetails,snippet&id=${missing.join(',')}`,
+      );
+      for (const item of detailsData.items) {
+        this.rememberDetails({
+          videoId: item.id,
+          title: item.snippet.title,
+          thumbnail: item.snippet.thumbnails.medium?.url || item.snippet.thumbnails.default?.url,
+          channelTitle: item.snippet.channelTitle,
+          duration: parseDuration(item.contentDetails.duration),
+          source: "youtube",
+        });
+      }
+    }
+
+    // Keep YouTube's relevance order; videos without details were removed
+    // or made private since the search index was built
+    return videoIds
+      .map(videoId => this.cachedDetails(videoId))
+      .filter((result): result is VideoSearchResult => !!result);
+  }
+}
+
+function parseDuration(duration: string): string {
+  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
+  if (!match) return '0:00';
+
+  const hours = parseInt(match[1] || '0');
+  const minutes = parseInt(match[2] || '0');
+  const seconds = parseInt(match[3] || '0');
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,37 @@
+// Phones that voted to skip the song playing in each room. Only the latest
+// song's votes are kept: a vote for another song starts the count over.
+export class SkipVotes {
+  private rooms = new Map<string, { songId: string; voters: Set<string> }>();
+
+  // Returns false when the device already voted for this song
+  add(roomId: string, songId: string, deviceId: string): boolean {
+    let votes = this.rooms.get(roomId);
+    if (!votes || votes.songId !== songId) {
+      votes = { songId, voters: new Set() };
+      this.rooms.set(roomId, votes);
+    }
+    if (votes.voters.has(deviceId)) return false;
+    votes.voters.add(deviceId);
+    return true;
+  }
+
+  // The song the room's votes are for, if anyone voted yet
+  songFor(roomId: string): string | undefined {
+    return this.rooms.get(roomId)?.songId;
+  }
+
+  votersFor(roomId: string, songId: string): string[] {
+    const votes = this.rooms.get(roomId);
+    return votes?.songId === songId ? Array.from(votes.voters) : [];
+  }
+
+  clear(roomId: string) {
+    this.rooms.delete(roomId);
+  }
+}
+
+// Votes it takes to skip with this many phones in the room; never fewer
+// than one
+export function skipVotesNeeded(threshold: number, phones: number): number {
+  return Math.max(1, Math.ceil(threshold * phones));
+}
@@ -1,16 +1,191 @@
 import { 
-  rooms, queueItems,
+  rooms, queueItems, deviceSessions, playHistory, librarySongs, parseRoomSettings,
   type Room, type InsertRoom,
-  type QueueItem, type InsertQueueItem
+  type QueueItem, type InsertQueueItem,
+  type DeviceSession, type InsertDeviceSession,
+  type PlayHistoryEntry, type PlayOutcome,
+  type LibrarySong, type InsertLibrarySong,
+  type QueueAddRejection, type RoomSettings,
+  type Reaction, type ReactionCounts
 } from "@shared/schema";
+import { getPlayOrder, checkQueueAddition } from "@shared/queue";
+import { scoreWithReactions } from "@shared/reactions";
 import { db } from "./db";
-import { eq, asc } from "drizzle-orm";
+import { config } from "./config";
+import { eq, asc, desc, and, ilike, inArray, lt, gt, sql } from "drizzle-orm";
+import { randomUUID } from "crypto";
+
+// A song to append; room, position and status are decided by the storage
+export type QueueItemDraft = Omit<InsertQueueItem, "roomId" | "position" | "status">;
+
+export type AppendResult =
+  | {
+      added: true;
+      item: QueueItem;
+      room: Room;
+      queue: QueueItem[];
+      // True when nothing was playing or waiting and the new item went
+      // straight to playing
+      startedPlaying: boolean;
+      // Already queued, let through by duplicatePolicy "warn"
+      duplicate: boolean;
+    }
+  // Refused by the room's queue limits (see checkQueueAddition)
+  | { added: false; rejection: QueueAddRejection };
+
+export interface AppendOptions {
+  // Queue the song as waiting even when the room requires approval, as it
+  // does for the host's own songs
+  skipApproval?: boolean;
+}
+
+export interface ReviewResult {
+  // The approved song, or the rejected one as it was before being removed
+  item: QueueItem;
+  approved: boolean;
+  room: Room;
+  queue: QueueItem[];
+  // True when the approved song went straight to playing
+  startedPlaying: boolean;
+}
+
+export interface AdvanceOptions {
+  // Remove this item instead of the playing one. The room only advances
+  // when the removed item was the one playing.
+  removeItemId?: string;
+  // Only skip if this item is still the one playing, so two skips sent for
+  // the same song advance the room once
+  expectedCurrentId?: string;
+  // Recorded in play history for the song that stops playing. Defaults to
+  // skipped; only the TV reporting the end of the video completes a song.
+  outcome?: PlayOutcome;
+  // Vocal score, recorded with the reaction bonus added when the room
+  // counts reactions towards it
+  score?: number;
+}
+
+export interface AdvanceResult {
+  room: Room;
+  queue: QueueItem[];
+  removed?: QueueItem;
+  // The item now playing, undefined when the queue ran out
+  current?: QueueItem;
+  // Whether the current song changed
+  advanced: boolean;
+  // History row written for the song that stopped playing, if there was one
+  history?: PlayHistoryEntry;
+}
+
+interface AdvancePlan {
+  remove?: QueueItem;
+  promote?: QueueItem;
+  advanced: boolean;
+}
+
+function planAdvance(room: Room, queue: QueueItem[], options: AdvanceOptions): AdvancePlan {
+  const playing = queue.find(item => item.status === 'playing');
+  let remove: QueueItem | undefined;
+
+  if (options.removeItemId) {
+    remove = queue.find(item => item.id === options.removeItemId);
+    if (!remove || remove.status !== 'playing') {
+      return { remove, advanced: false };
+    }
+  } else {
+    if (options.expectedCurrentId && playing?.id !== options.expectedCurrentId) {
+      return { advanced: false };
+    }
+    remove = playing;
+  }
+
+  const promote = getPlayOrder(queue, parseRoomSettings(room.settings))
+    .find(item => item.id !== remove?.id);
+  return { remove, promote, advanced: true };
+}
+
+// New order for the queue after moving a waiting item. The playing item stays
+// on top; toIndex counts only the waiting items and is clamped to the end.
+function planMove(queue: QueueItem[], itemId: string, toIndex: number): QueueItem[] | undefined {
+  const target = queue.find(item => item.id === itemId);
+  if (!target || target.status !== 'waiting') return undefined;
+
+  const playing = queue.filter(item => item.status === 'playing');
+  const rest = queue.filter(item => item.status === 'waiting' && item.id !== itemId);
+  rest.splice(Math.min(toIndex, rest.length), 0, target);
+  // Songs pending approval stay at the back until they are approved
+  const pending = queue.filter(item => item.status === 'pending');
+  return [...playing, ...rest, ...pending];
+}
+
+// Nothing is playing or waiting, so a song joining the queue plays at once
+function queueIsIdle(queue: QueueItem[]): boolean {
+  return !queue.some(item => item.status === 'playing' || item.status === 'waiting');
+}
+
+// Where a new or just approved song goes: the back of the queue, or on stage
+// if the queue is idle. A song pending approval never starts playing.
+function placement(queue: QueueItem[], pending: boolean): Pick<QueueItem, "position" | "status" | "startedAt"> {
+  const startedPlaying = !pending && queueIsIdle(queue);
+  return {
+    position: Math.max(0, ...queue.map(item => item.position)) + 1,
+    status: pending ? 'pending' : startedPlaying ? 'playing' : 'waiting',
+    startedAt: startedPlaying ? new Date() : null,
+  };
+}
+
+function historyFor(item: QueueItem, options: AdvanceOptions, settings: RoomSettings): Omit<PlayHistoryEntry, "id" | "endedAt"> {
+  return {
+    roomId: item.roomId,
+    videoId: item.videoId,
+    title: item.title,
+    thumbnail: item.thumbnail,
+    channelTitle: item.channelTitle,
+    duration: item.duration,
+    source: item.source,
+    deviceId: item.deviceId,
+    singerName: item.singerName,
+    startedAt: item.startedAt,
+    outcome: options.outcome ?? 'skipped',
+    score: options.score === undefined ? null : scoreWithReactions(options.score, item.reactions, settings),
+    reactions: item.reactions,
+  };
+}
+
+function currentSongFields(item: QueueItem | undefined): Partial<Room> {
+  return {
+    currentVideoId: item?.videoId ?? null,
+    currentVideoTitle: item?.title ?? null,
+    currentVideoThumbnail: item?.thumbnail ?? null,
+    currentVideoSource: item?.source ?? null,
+    isPlaying: !!item,
+    playbackPosition: 0,
+    playbackDuration: null,
+    playbackUpdatedAt: item ? new Date() : null,
+  };
+}
+
+// Songs that finished after this count as played recently
+function duplicateWindowStart(settings: RoomSettings): Date {
+  return new Date(Date.now() - settings.duplicateWindowMinutes * 60 * 1000);
+}
+
+// A device's previous add across its sessions in the room, for the cooldown
+function latestAdd(sessions: Pick<DeviceSession, "lastAddedAt">[]): Date | null {
+  const times = sessions.flatMap(session => session.lastAddedAt ? [session.lastAddedAt.getTime()] : []);
+  return times.length > 0 ? new Date(Math.max(...times)) : null;
+}
 
 export interface IStorage {
   createRoom(room: InsertRoom): Promise<Room>;
   getRoomByCode(code: string): Promise<Room | undefined>;
   getRoom(id: string): Promise<Room | undefined>;
   updateRoom(id: string, updates: Partial<Room>): Promise<Room | undefined>;
+  deleteRoom(id: string): Promise<void>;
+  // Marks the rooms as active now
+  touchRooms(ids: string[]): Promise<void>;
+  // Deletes rooms not active since the given time, with their queues, and
+  // returns them
+  deleteIdleRooms(idleSince: Date): Promise<Room[]>;
   
   addToQueue(item: InsertQueueItem): Promise<QueueItem>;
   getQueueByRoomId(roomId: string): Promise<QueueItem[]>;
@@ -19,6 +194,38 @@ export interface IStorage {
   updateQueueItem(id: string, updates: Partial<QueueItem>): Promise<QueueItem | undefined>;
   clearQueue(roomId: string): Promise<void>;
   getMaxPosition(roomId: string): Promise<number>;
+
+  // Atomic queue operations: each runs under a per-room lock so concurrent
+  // requests never duplicate positions or leave two items playing
+  appendToQueue(roomId: string, item: QueueItemDraft, options?: AppendOptions): Promise<AppendResult | undefined>;
+  advanceRoom(roomId: string, options?: AdvanceOptions): Promise<AdvanceResult | undefined>;
+  // Moves a non-playing item and renumbers positions; returns the reordered
+  // queue, or undefined when the room or a movable item doesn't exist
+  moveQueueItem(roomId: string, itemId: string, toIndex: number): Promise<QueueItem[] | undefined>;
+  // Approves a pending song or removes it; undefined when the room or the
+  // pending song doesn't exist
+  reviewQueueItem(roomId: string, itemId: string, approved: boolean): Promise<ReviewResult | undefined>;
+  // Counts a reaction to the song while it plays and returns its totals;
+  // undefined once it no longer plays
+  addReaction(roomId: string, itemId: string, reaction: Reaction): Promise<ReactionCounts | undefined>;
+
+  // Songs that have played in the room, most recent first
+  getPlayHistory(roomId: string): Promise<PlayHistoryEntry[]>;
+
+  createDeviceSession(session: InsertDeviceSession): Promise<DeviceSession>;
+  getDeviceSession(token: string): Promise<DeviceSession | undefined>;
+  // Mutes or unmutes every session of a device in the room; false when it
+  // has none
+  setDeviceMuted(roomId: string, deviceId: string, muted: boolean): Promise<boolean>;
+
+  // Local library index, shared by every room
+  getLibrarySongs(): Promise<LibrarySong[]>;
+  getLibrarySong(id: string): Promise<LibrarySong | undefined>;
+  // Inserts or updates the song with the same path, keeping its id
+  saveLibrarySong(song: InsertLibrarySong): Promise<LibrarySong>;
+  deleteLibrarySongs(ids: string[]): Promise<void>;
+  // Songs whose searchText contains every word, ordered by artist and title
+  searchLibrarySongs(words: string[], limit: number): Promise<LibrarySong[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -46,6 +253,19 @@ export class DatabaseStorage implements IStorage {
     return room || undefined;
   }
 
+  async deleteRoom(id: string): Promise<void> {
+    await db.delete(rooms).where(eq(rooms.id, id));
+  }
+
+  async touchRooms(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(rooms).set({ lastActiveAt: new Date() }).where(inArray(rooms.id, ids));
+  }
+
+  async deleteIdleRooms(idleSince: Date): Promise<Room[]> {
+    return db.delete(rooms).where(lt(rooms.lastActiveAt, idleSince)).returning();
+  }
+
   async addToQueue(item: InsertQueueItem): Promise<QueueItem> {
     const [queueItem] = await db.insert(queueItems).values(item).returning();
     return queueItem;
@@ -60,9 +280,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getNextInQueue(roomId: string): Promise<QueueItem | undefined> {
+    const room = await this.getRoom(roomId);
+    if (!room) return undefined;
     const queue = await this.getQueueByRoomId(roomId);
-    const waitingItems = queue.filter(item => item.status === 'waiting');
-    return waitingItems[0];
+    return getPlayOrder(queue, parseRoomSettings(room.settings))[0];
   }
 
   async removeFromQueue(id: string): Promise<void> {
@@ -87,6 +308,655 @@ export class DatabaseStorage implements IStorage {
     if (queue.length === 0) return 0;
     return Math.max(...queue.map(item => item.position));
   }
+
+  async appendToQueue(roomId: string, draft: QueueItemDraft, options: AppendOptions = {}): Promise<AppendResult | undefined> {
+    return db.transaction(async (tx) => {
+      const [room] = await tx.select().from(rooms).where(eq(rooms.id, roomId)).for("update");
+      if (!room) return undefined;
+
+      // Checked under the room lock, so quick repeated taps can't slip past
+      const settings = parseRoomSettings(room.settings);
+      const current = await tx
+        .select()
+        .from(queueItems)
+        .where(eq(queueItems.roomId, roomId))
+        .orderBy(asc(queueItems.position));
+      const recentHistory = settings.duplicatePolicy === 'allow_after'
+        ? await tx
+            .select()
+            .from(playHistory)
+            .where(and(
+              eq(playHistory.roomId, roomId),
+              eq(playHistory.videoId, draft.videoId),
+              gt(playHistory.endedAt, duplicateWindowStart(settings)),
+            ))
+        : [];
+      const sessions = draft.deviceId
+        ? await tx
+            .select({ lastAddedAt: deviceSessions.lastAddedAt })
+            .from(deviceSessions)
+            .where(and(eq(deviceSessions.roomId, roomId), eq(deviceSessions.deviceId, draft.deviceId)))
+        : [];
+      const verdict = checkQueueAddition(
+        settings,
+        { deviceId: draft.deviceId ?? null, videoId: draft.videoId, lastAddedAt: latestAdd(sessions) },
+        current,
+        recentHistory,
+      );
+      if (!verdict.allowed) {
+        return { added: false as const, rejection: verdict.rejection };
+      }
+      if (draft.deviceId) {
+        await tx
+          .update(deviceSessions)
+          .set({ lastAddedAt: new Date() })
+          .where(and(eq(deviceSessions.roomId, roomId), eq(deviceSessions.deviceId, draft.deviceId)));
+      }
+
+      const [item] = await tx.insert(queueItems).values({
+        ...draft,
+        roomId,
+        ...placement(current, settings.requireApproval && !options.skipApproval),
+      }).returning();
+      const startedPlaying = item.status === 'playing';
+
+      let updatedRoom = room;
+      if (startedPlaying) {
+        [updatedRoom] = await tx
+          .update(rooms)
+          .set(currentSongFields(item))
+          .where(eq(rooms.id, roomId))
+          .returning();
+      }
+
+      const queue = await tx
+        .select()
+        .from(queueItems)
+        .where(eq(queueItems.roomId, roomId))
+        .orderBy(asc(queueItems.position));
+
+      return { added: true as const, item, room: updatedRoom, queue, startedPlaying, duplicate: verdict.duplicate };
+    });
+  }
+
+  async advanceRoom(roomId: string, options: AdvanceOptions = {}): Promise<AdvanceResult | undefined> {
+    return db.transaction(async (tx) => {
+      const [room] = await tx.select().from(rooms).where(eq(rooms.id, roomId)).for("update");
+      if (!room) return undefined;
+
+      const loadQueue = () => tx
+        .select()
+        .from(queueItems)
+        .where(eq(queueItems.roomId, roomId))
+        .orderBy(asc(queueItems.position));
+
+      const plan = planAdvance(room, await loadQueue(), options);
+      if (plan.remove) {
+        await tx.delete(queueItems).where(eq(queueItems.id, plan.remove.id));
+      }
+      if (!plan.advanced) {
+        return { room, queue: await loadQueue(), removed: plan.remove, advanced: false };
+      }
+
+      let history: PlayHistoryEntry | undefined;
+      if (plan.remove) {
+        [history] = await tx
+          .insert(playHistory)
+          .values(historyFor(plan.remove, options, parseRoomSettings(room.settings)))
+          .returning();
+      }
+
+      let current: QueueItem | undefined;
+      if (plan.promote) {
+        [current] = await tx
+          .update(queueItems)
+          .set({ status: 'playing', startedAt: new Date() })
+          .where(eq(queueItems.id, plan.promote.id))
+          .returning();
+      }
+
+      const [updatedRoom] = await tx
+        .update(rooms)
+        .set(currentSongFields(current))
+        .where(eq(rooms.id, roomId))
+        .returning();
+
+      return { room: updatedRoom, queue: await loadQueue(), removed: plan.remove, current, advanced: true, history };
+    });
+  }
+
+  async moveQueueItem(roomId: string, itemId: string, toIndex: number): Promise<QueueItem[] | undefined> {
+    return db.transaction(async (tx) => {
+      const [room] = await tx.select().from(rooms).where(eq(rooms.id, roomId)).for("update");
+      if (!room) return undefined;
+
+      const queue = await tx
+        .select()
+        .from(queueItems)
+        .where(eq(queueItems.roomId, roomId))
+        .orderBy(asc(queueItems.position));
+
+      const order = planMove(queue, itemId, toIndex);
+      if (!order) return undefined;
+
+      const reordered: QueueItem[] = [];
+      for (let index = 0; index < order.length; index++) {
+        const item = order[index];
+        const position = index + 1;
+        if (item.position === position) {
+          reordered.push(item);
+          continue;
+        }
+        const [updated] = await tx
+          .update(queueItems)
+          .set({ position })
+          .where(eq(queueItems.id, item.id))
+          .returning();
+        reordered.push(updated);
+      }
+      return reordered;
+    });
+  }
+
+  async reviewQueueItem(roomId: string, itemId: string, approved: boolean): Promise<ReviewResult | undefined> {
+    return db.transaction(async (tx) => {
+      const [room] = await tx.select().from(rooms).where(eq(rooms.id, roomId)).for("update");
+      if (!room) return undefined;
+
+      const loadQueue = () => tx
+        .select()
+        .from(queueItems)
+        .where(eq(queueItems.roomId, roomId))
+        .orderBy(asc(queueItems.position));
+
+      const queue = await loadQueue();
+      const target = queue.find(item => item.id === itemId && item.status === 'pending');
+      if (!target) return undefined;
+
+      if (!approved) {
+        await tx.delete(queueItems).where(eq(queueItems.id, itemId));
+        return { item: target, approved, room, queue: await loadQueue(), startedPlaying: false };
+      }
+
+      const [item] = await tx
+        .update(queueItems)
+        .set(placement(queue, false))
+        .where(eq(queueItems.id, itemId))
+        .returning();
+      const startedPlaying = item.status === 'playing';
+
+      let updatedRoom = room;
+      if (startedPlaying) {
+        [updatedRoom] = await tx
+          .update(rooms)
+          .set(currentSongFields(item))
+          .where(eq(rooms.id, roomId))
+          .returning();
+      }
+
+      return { item, approved, room: updatedRoom, queue: await loadQueue(), startedPlaying };
+    });
+  }
+
+  async addReaction(roomId: string, itemId: string, reaction: Reaction): Promise<ReactionCounts | undefined> {
+    // Incremented in place so reactions arriving at once through different
+    // server instances all count
+    const [item] = await db
+      .update(queueItems)
+      .set({
+        reactions: sql`${queueItems.reactions} || jsonb_build_object(${reaction}::text, coalesce((${queueItems.reactions} ->> ${reaction}::text)::int, 0) + 1)`,
+      })
+      .where(and(eq(queueItems.id, itemId), eq(queueItems.roomId, roomId), eq(queueItems.status, 'playing')))
+      .returning({ reactions: queueItems.reactions });
+    return item?.reactions;
+  }
+
+  async getPlayHistory(roomId: string): Promise<PlayHistoryEntry[]> {
+    return db
+      .select()
+      .from(playHistory)
+      .where(eq(playHistory.roomId, roomId))
+      .orderBy(desc(playHistory.endedAt));
+  }
+
+  async createDeviceSession(insertSession: InsertDeviceSession): Promise<DeviceSession> {
+    const [session] = await db.insert(deviceSessions).values(insertSession).returning();
+    return session;
+  }
+
+  async getDeviceSession(token: string): Promise<DeviceSession | undefined> {
+    const [session] = await db.select().from(deviceSessions).where(eq(deviceSessions.token, token));
+    return session || undefined;
+  }
+
+  async setDeviceMuted(roomId: string, deviceId: string, muted: boolean): Promise<boolean> {
+    const updated = await db
+      .update(deviceSessions)
+      .set({ muted })
+      .where(and(eq(deviceSessions.roomId, roomId), eq(deviceSessions.deviceId, deviceId)))
+      .returning({ token: deviceSessions.token });
+    return updated.length > 0;
+  }
+
+  async getLibrarySongs(): Promise<LibrarySong[]> {
+    return db.select().from(librarySongs);
+  }
+
+  async getLibrarySong(id: string): Promise<LibrarySong | undefined> {
+    const [song] = await db.select().from(librarySongs).where(eq(librarySongs.id, id));
+    return song || undefined;
+  }
+
+  async saveLibrarySong(song: InsertLibrarySong): Promise<LibrarySong> {
+    const [saved] = await db
+      .insert(librarySongs)
+      .values(song)
+      .onConflictDoUpdate({
+        target: librarySongs.path,
+        set: { ...song, indexedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteLibrarySongs(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(librarySongs).where(inArray(librarySongs.id, ids));
+  }
+
+  async searchLibrarySongs(words: string[], limit: number): Promise<LibrarySong[]> {
+    // Words are escaped so "%" or "_" in a query match literally
+    const conditions = words.map(word =>
+      ilike(librarySongs.searchText, `%${word.replace(/[\\%_]/g, "\\$&")}%`),
+    );
+    return db
+      .select()
+      .from(librarySongs)
+      .where(and(...conditions))
+      .orderBy(asc(librarySongs.artist), asc(librarySongs.title))
+      .limit(limit);
+  }
+}
+
+// Keeps rooms and queue items in process memory. Mirrors the database
+// semantics (defaults, foreign key, cascade delete, position ordering) so the
+// routes behave the same without a Postgres.
+export class MemStorage implements IStorage {
+  private rooms = new Map<string, Room>();
+  private queueItems = new Map<string, QueueItem>();
+  private deviceSessions = new Map<string, DeviceSession>();
+  private playHistory = new Map<string, PlayHistoryEntry>();
+  private librarySongs = new Map<string, LibrarySong>();
+
+  async createRoom(insertRoom: InsertRoom): Promise<Room> {
+    for (const existing of Array.from(this.rooms.values())) {
+      if (existing.code === insertRoom.code) {
+        throw new Error(`Room code ${insertRoom.code} already exists`);
+      }
+    }
+
+    const room: Room = {
+      id: randomUUID(),
+      code: insertRoom.code,
+      currentVideoId: insertRoom.currentVideoId ?? null,
+      currentVideoTitle: insertRoom.currentVideoTitle ?? null,
+      currentVideoThumbnail: insertRoom.currentVideoThumbnail ?? null,
+      currentVideoSource: insertRoom.currentVideoSource ?? null,
+      isPlaying: insertRoom.isPlaying ?? false,
+      playbackPosition: insertRoom.playbackPosition ?? 0,
+      playbackDuration: insertRoom.playbackDuration ?? null,
+      playbackUpdatedAt: insertRoom.playbackUpdatedAt ?? null,
+      settings: parseRoomSettings(insertRoom.settings),
+      hostSecret: insertRoom.hostSecret,
+      pin: insertRoom.pin ?? null,
+      createdAt: new Date(),
+      lastActiveAt: new Date(),
+    };
+    this.rooms.set(room.id, room);
+    return { ...room };
+  }
+
+  async getRoomByCode(code: string): Promise<Room | undefined> {
+    const room = Array.from(this.rooms.values()).find(r => r.code === code);
+    return room ? { ...room } : undefined;
+  }
+
+  async getRoom(id: string): Promise<Room | undefined> {
+    const room = this.rooms.get(id);
+    return room ? { ...room } : undefined;
+  }
+
+  async updateRoom(id: string, updates: Partial<Room>): Promise<Room | undefined> {
+    const room = this.rooms.get(id);
+    if (!room) return undefined;
+    const updated = { ...room, ...updates, id: room.id };
+    this.rooms.set(id, updated);
+    return { ...updated };
+  }
+
+  async touchRooms(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      const room = this.rooms.get(id);
+      if (room) room.lastActiveAt = new Date();
+    }
+  }
+
+  async deleteIdleRooms(idleSince: Date): Promise<Room[]> {
+    const idle = Array.from(this.rooms.values()).filter(room => room.lastActiveAt < idleSince);
+    for (const room of idle) {
+      await this.deleteRoom(room.id);
+    }
+    return idle.map(room => ({ ...room }));
+  }
+
+  async deleteRoom(id: string): Promise<void> {
+    this.rooms.delete(id);
+    await this.clearQueue(id);
+    for (const session of Array.from(this.deviceSessions.values())) {
+      if (session.roomId === id) {
+        this.deviceSessions.delete(session.token);
+      }
+    }
+    for (const entry of Array.from(this.playHistory.values())) {
+      if (entry.roomId === id) {
+        this.playHistory.delete(entry.id);
+      }
+    }
+  }
+
+  async addToQueue(item: InsertQueueItem): Promise<QueueItem> {
+    return { ...this.insertQueueItem(item) };
+  }
+
+  async getQueueByRoomId(roomId: string): Promise<QueueItem[]> {
+    return this.queueSync(roomId);
+  }
+
+  async getNextInQueue(roomId: string): Promise<QueueItem | undefined> {
+    const room = await this.getRoom(roomId);
+    if (!room) return undefined;
+    const queue = await this.getQueueByRoomId(roomId);
+    return getPlayOrder(queue, parseRoomSettings(room.settings))[0];
+  }
+
+  async removeFromQueue(id: string): Promise<void> {
+    this.queueItems.delete(id);
+  }
+
+  async updateQueueItem(id: string, updates: Partial<QueueItem>): Promise<QueueItem | undefined> {
+    const item = this.queueItems.get(id);
+    if (!item) return undefined;
+    const updated = { ...item, ...updates, id: item.id };
+    this.queueItems.set(id, updated);
+    return { ...updated };
+  }
+
+  async clearQueue(roomId: string): Promise<void> {
+    for (const item of Array.from(this.queueItems.values())) {
+      if (item.roomId === roomId) {
+        this.queueItems.delete(item.id);
+      }
+    }
+  }
+
+  async getMaxPosition(roomId: string): Promise<number> {
+    return this.maxPositionSync(roomId);
+  }
+
+  // The in-memory operations below never await between reading and writing,
+  // so they already run atomically on the single-threaded event loop.
+  async appendToQueue(roomId: string, draft: QueueItemDraft, options: AppendOptions = {}): Promise<AppendResult | undefined> {
+    const room = this.rooms.get(roomId);
+    if (!room) return undefined;
+
+    const settings = parseRoomSettings(room.settings);
+    const current = this.queueSync(roomId);
+    const windowStart = duplicateWindowStart(settings);
+    const recentHistory = Array.from(this.playHistory.values()).filter(entry =>
+      entry.roomId === roomId && entry.videoId === draft.videoId && entry.endedAt > windowStart,
+    );
+    const sessions = Array.from(this.deviceSessions.values()).filter(session =>
+      session.roomId === roomId && session.deviceId === draft.deviceId,
+    );
+    const verdict = checkQueueAddition(
+      settings,
+      { deviceId: draft.deviceId ?? null, videoId: draft.videoId, lastAddedAt: latestAdd(sessions) },
+      current,
+      settings.duplicatePolicy === 'allow_after' ? recentHistory : [],
+    );
+    if (!verdict.allowed) {
+      return { added: false, rejection: verdict.rejection };
+    }
+    const addedAt = new Date();
+    for (const session of sessions) {
+      this.deviceSessions.set(session.token, { ...session, lastAddedAt: addedAt });
+    }
+
+    const item = this.insertQueueItem({
+      ...draft,
+      roomId,
+      ...placement(current, settings.requireApproval && !options.skipApproval),
+    });
+    const startedPlaying = item.status === 'playing';
+
+    if (startedPlaying) {
+      this.rooms.set(roomId, { ...this.rooms.get(roomId)!, ...currentSongFields(item) });
+    }
+
+    return {
+      added: true,
+      item: { ...item },
+      room: { ...this.rooms.get(roomId)! },
+      queue: this.queueSync(roomId),
+      startedPlaying,
+      duplicate: verdict.duplicate,
+    };
+  }
+
+  async advanceRoom(roomId: string, options: AdvanceOptions = {}): Promise<AdvanceResult | undefined> {
+    const room = this.rooms.get(roomId);
+    if (!room) return undefined;
+
+    const plan = planAdvance(room, this.queueSync(roomId), options);
+    if (plan.remove) {
+      this.queueItems.delete(plan.remove.id);
+    }
+    if (!plan.advanced) {
+      return { room: { ...room }, queue: this.queueSync(roomId), removed: plan.remove, advanced: false };
+    }
+
+    let history: PlayHistoryEntry | undefined;
+    if (plan.remove) {
+      history = {
+        ...historyFor(plan.remove, options, parseRoomSettings(room.settings)),
+        id: randomUUID(),
+        endedAt: new Date(),
+      };
+      this.playHistory.set(history.id, history);
+    }
+
+    let current: QueueItem | undefined;
+    if (plan.promote) {
+      current = { ...this.queueItems.get(plan.promote.id)!, status: 'playing', startedAt: new Date() };
+      this.queueItems.set(current.id, current);
+    }
+
+    const updatedRoom = { ...room, ...currentSongFields(current) };
+    this.rooms.set(roomId, updatedRoom);
+
+    return {
+      room: { ...updatedRoom },
+      queue: this.queueSync(roomId),
+      removed: plan.remove,
+      current: current && { ...current },
+      advanced: true,
+      history: history && { ...history },
+    };
+  }
+
+  async moveQueueItem(roomId: string, itemId: string, toIndex: number): Promise<QueueItem[] | undefined> {
+    if (!this.rooms.has(roomId)) return undefined;
+
+    const order = planMove(this.queueSync(roomId), itemId, toIndex);
+    if (!order) return undefined;
+
+    return order.map((item, index) => {
+      const updated = { ...item, position: index + 1 };
+      this.queueItems.set(updated.id, updated);
+      return { ...updated };
+    });
+  }
+
+  async reviewQueueItem(roomId: string, itemId: string, approved: boolean): Promise<ReviewResult | undefined> {
+    const room = this.rooms.get(roomId);
+    const target = this.queueItems.get(itemId);
+    if (!room || target?.roomId !== roomId || target.status !== 'pending') return undefined;
+
+    if (!approved) {
+      this.queueItems.delete(itemId);
+      return { item: { ...target }, approved, room: { ...room }, queue: this.queueSync(roomId), startedPlaying: false };
+    }
+
+    const item = { ...target, ...placement(this.queueSync(roomId), false) };
+    this.queueItems.set(itemId, item);
+    const startedPlaying = item.status === 'playing';
+    if (startedPlaying) {
+      this.rooms.set(roomId, { ...room, ...currentSongFields(item) });
+    }
+
+    return {
+      item: { ...item },
+      approved,
+      room: { ...this.rooms.get(roomId)! },
+      queue: this.queueSync(roomId),
+      startedPlaying,
+    };
+  }
+
+  async addReaction(roomId: string, itemId: string, reaction: Reaction): Promise<ReactionCounts | undefined> {
+    const item = this.queueItems.get(itemId);
+    if (item?.roomId !== roomId || item.status !== 'playing') return undefined;
+    const reactions = { ...item.reactions, [reaction]: (item.reactions[reaction] ?? 0) + 1 };
+    this.queueItems.set(itemId, { ...item, reactions });
+    return { ...reactions };
+  }
+
+  async getPlayHistory(roomId: string): Promise<PlayHistoryEntry[]> {
+    return Array.from(this.playHistory.values())
+      .filter(entry => entry.roomId === roomId)
+      .sort((a, b) => b.endedAt.getTime() - a.endedAt.getTime())
+      .map(entry => ({ ...entry }));
+  }
+
+  async createDeviceSession(insertSession: InsertDeviceSession): Promise<DeviceSession> {
+    if (!this.rooms.has(insertSession.roomId)) {
+      throw new Error(`Room ${insertSession.roomId} does not exist`);
+    }
+
+    const session: DeviceSession = { ...insertSession, muted: insertSession.muted ?? false, lastAddedAt: null, createdAt: new Date() };
+    this.deviceSessions.set(session.token, session);
+    return { ...session };
+  }
+
+  async getDeviceSession(token: string): Promise<DeviceSession | undefined> {
+    const session = this.deviceSessions.get(token);
+    return session ? { ...session } : undefined;
+  }
+
+  async setDeviceMuted(roomId: string, deviceId: string, muted: boolean): Promise<boolean> {
+    let found = false;
+    for (const session of Array.from(this.deviceSessions.values())) {
+      if (session.roomId === roomId && session.deviceId === deviceId) {
+        this.deviceSessions.set(session.token, { ...session, muted });
+        found = true;
+      }
+    }
+    return found;
+  }
+
+  async getLibrarySongs(): Promise<LibrarySong[]> {
+    return Array.from(this.librarySongs.values()).map(song => ({ ...song }));
+  }
+
+  async getLibrarySong(id: string): Promise<LibrarySong | undefined> {
+    const song = this.librarySongs.get(id);
+    return song ? { ...song } : undefined;
+  }
+
+  async saveLibrarySong(song: InsertLibrarySong): Promise<LibrarySong> {
+    const existing = Array.from(this.librarySongs.values()).find(s => s.path === song.path);
+    const saved: LibrarySong = {
+      id: existing?.id ?? randomUUID(),
+      path: song.path,
+      title: song.title,
+      artist: song.artist ?? null,
+      durationSeconds: song.durationSeconds ?? null,
+      fileSize: song.fileSize,
+      modifiedAt: song.modifiedAt,
+      searchText: song.searchText,
+      indexedAt: new Date(),
+    };
+    this.librarySongs.set(saved.id, saved);
+    return { ...saved };
+  }
+
+  async deleteLibrarySongs(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.librarySongs.delete(id);
+    }
+  }
+
+  async searchLibrarySongs(words: string[], limit: number): Promise<LibrarySong[]> {
+    return Array.from(this.librarySongs.values())
+      .filter(song => words.every(word => song.searchText.includes(word)))
+      .sort((a, b) =>
+        // Postgres sorts null artists last
+        (a.artist === null ? 1 : 0) - (b.artist === null ? 1 : 0) ||
+        (a.artist ?? "").localeCompare(b.artist ?? "") ||
+        a.title.localeCompare(b.title))
+      .slice(0, limit)
+      .map(song => ({ ...song }));
+  }
+
+  private queueSync(roomId: string): QueueItem[] {
+    return Array.from(this.queueItems.values())
+      .filter(item => item.roomId === roomId)
+      .sort((a, b) => a.position - b.position)
+      .map(item => ({ ...item }));
+  }
+
+  private maxPositionSync(roomId: string): number {
+    const queue = this.queueSync(roomId);
+    if (queue.length === 0) return 0;
+    return Math.max(...queue.map(item => item.position));
+  }
+
+  private insertQueueItem(item: InsertQueueItem): QueueItem {
+    if (!this.rooms.has(item.roomId)) {
+      throw new Error(`Room ${item.roomId} does not exist`);
+    }
+
+    const queueItem: QueueItem = {
+      id: randomUUID(),
+      roomId: item.roomId,
+      videoId: item.videoId,
+      title: item.title,
+      thumbnail: item.thumbnail,
+      channelTitle: item.channelTitle ?? null,
+      duration: item.duration ?? null,
+      source: item.source ?? "youtube",
+      position: item.position,
+      status: item.status ?? "waiting",
+      deviceId: item.deviceId ?? null,
+      singerName: item.singerName ?? null,
+      addedAt: new Date(),
+      startedAt: item.startedAt ?? null,
+      reactions: {},
+    };
+    this.queueItems.set(queueItem.id, queueItem);
+    return queueItem;
+  }
 }
 
-export const storage = new DatabaseStorage();
+export const storage: IStorage =
+  config.storageDriver === "memory" ? new MemStorage() : new DatabaseStorage();
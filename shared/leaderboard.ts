@@ -0,0 +1,55 @@
+import type { Leaderboard, LeaderboardSinger, PlayHistoryEntry } from "./schema";
+
+const LEADERBOARD_SIZE = 10;
+
+// Singers are grouped by name rather than device: friends often pass one
+// phone around, and a singer may queue from more than one device (or a
+// browser that lost its saved session)
+function singerKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+// Ranks a room's scored performances. Singers are ordered by their average
+// score, then best score; songs by score, earliest first on ties.
+export function buildLeaderboard(history: PlayHistoryEntry[]): Leaderboard {
+  const scored = history
+    .filter((entry): entry is PlayHistoryEntry & { score: number } => entry.score !== null)
+    .sort((a, b) => new Date(a.endedAt).getTime() - new Date(b.endedAt).getTime());
+
+  const bySinger = new Map<string, { singerName: string; scores: number[] }>();
+  for (const entry of scored) {
+    if (!entry.singerName) continue;
+    const key = singerKey(entry.singerName);
+    const singer = bySinger.get(key);
+    if (singer) {
+      singer.scores.push(entry.score);
+    } else {
+      bySinger.set(key, { singerName: entry.singerName, scores: [entry.score] });
+    }
+  }
+
+  const topSingers: LeaderboardSinger[] = Array.from(bySinger.values())
+    .map(({ singerName, scores }) => ({
+      singerName,
+      averageScore: Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+      bestScore: Math.max(...scores),
+      songCount: scores.length,
+    }))
+    .sort((a, b) => b.averageScore - a.averageScore || b.bestScore - a.bestScore)
+    .slice(0, LEADERBOARD_SIZE);
+
+  // Array.prototype.sort is stable, so equal scores keep play order
+  const topSongs = [...scored]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, LEADERBOARD_SIZE)
+    .map(entry => ({
+      id: entry.id,
+      videoId: entry.videoId,
+      title: entry.title,
+      thumbnail: entry.thumbnail,
+      singerName: entry.singerName,
+      score: entry.score,
+    }));
+
+  return { topSingers, topSongs };
+}
@@ -0,0 +1,36 @@
+import type { MediaSource } from "./schema";
+
+// Songs from the venue's local library travel through the queue like YouTube
+// videos, with videoId "local:<library song id>" and source "local"
+export const LOCAL_VIDEO_PREFIX = "local:";
+
+export function toLocalVideoId(songId: string): string {
+  return `${LOCAL_VIDEO_PREFIX}${songId}`;
+}
+
+// The library song id behind a queued videoId, or null for YouTube videos
+export function getLocalSongId(videoId: string | null | undefined): string | null {
+  if (!videoId?.startsWith(LOCAL_VIDEO_PREFIX)) return null;
+  return videoId.slice(LOCAL_VIDEO_PREFIX.length) || null;
+}
+
+// The source a videoId belongs to, for requests that don't name one
+export function mediaSourceOf(videoId: string): MediaSource {
+  return getLocalSongId(videoId) ? "local" : "youtube";
+}
+
+export function librarySongStreamUrl(songId: string): string {
+  return `/api/library/songs/${encodeURIComponent(songId)}/stream`;
+}
+
+// 185 -> "3:05", 3725 -> "1:02:05"
+export function formatDuration(totalSeconds: number): string {
+  const rounded = Math.round(totalSeconds);
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  const seconds = rounded % 60;
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
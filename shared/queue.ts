@@ -0,0 +1,107 @@
+import type { QueueItem, PlayHistoryEntry, QueueAddRejection, RoomSettings } from "./schema";
+
+// Songs without a recorded requester count as their own singer
+function singerKey(item: QueueItem): string {
+  return item.deviceId ?? item.singerName ?? item.id;
+}
+
+// Interleaves waiting songs so every singer gets a turn before anyone sings
+// twice. Singers take turns in the order they first queued, except that the
+// singer on stage right now goes last in the current round.
+function roundRobin(waiting: QueueItem[], playing: QueueItem | undefined): QueueItem[] {
+  const bySinger = new Map<string, QueueItem[]>();
+  for (const item of waiting) {
+    const key = singerKey(item);
+    const songs = bySinger.get(key);
+    if (songs) {
+      songs.push(item);
+    } else {
+      bySinger.set(key, [item]);
+    }
+  }
+
+  const singers = Array.from(bySinger.keys());
+  if (playing) {
+    const onStage = singers.indexOf(singerKey(playing));
+    if (onStage !== -1) {
+      singers.push(...singers.splice(onStage, 1));
+    }
+  }
+
+  const order: QueueItem[] = [];
+  for (let round = 0; order.length < waiting.length; round++) {
+    for (const singer of singers) {
+      const song = bySinger.get(singer)![round];
+      if (song) order.push(song);
+    }
+  }
+  return order;
+}
+
+// The order waiting songs will actually play in. Expects the queue sorted by
+// position, as storage returns it.
+export function getPlayOrder(queue: QueueItem[], settings: RoomSettings): QueueItem[] {
+  const waiting = queue.filter(item => item.status === 'waiting');
+  if (!settings.fairRotation) return waiting;
+  return roundRobin(waiting, queue.find(item => item.status === 'playing'));
+}
+
+export type QueueAddVerdict =
+  | { allowed: true; duplicate: boolean }
+  | { allowed: false; rejection: QueueAddRejection };
+
+function secondsUntil(time: number, now: Date): number {
+  return Math.ceil((time - now.getTime()) / 1000);
+}
+
+// Checks a song a device wants to queue against the room's limits. Songs
+// pending approval count towards the singer's limit, and the cooldown counts
+// from lastAddedAt, the device's previous add, even if that song has since
+// been removed or played. recentHistory only matters for duplicatePolicy
+// "allow_after".
+export function checkQueueAddition(
+  settings: RoomSettings,
+  addition: { deviceId: string | null; videoId: string; lastAddedAt: Date | null },
+  queue: QueueItem[],
+  recentHistory: PlayHistoryEntry[],
+  now = new Date(),
+): QueueAddVerdict {
+  const mine = addition.deviceId ? queue.filter(item => item.deviceId === addition.deviceId) : [];
+
+  const limit = settings.maxWaitingPerSinger;
+  if (limit !== null && mine.filter(item => item.status !== 'playing').length >= limit) {
+    return { allowed: false, rejection: { code: "singer_limit_reached", limit } };
+  }
+
+  if (settings.addCooldownSeconds > 0 && addition.lastAddedAt) {
+    const retryAfterSeconds = secondsUntil(addition.lastAddedAt.getTime() + settings.addCooldownSeconds * 1000, now);
+    if (retryAfterSeconds > 0) {
+      return { allowed: false, rejection: { code: "add_cooldown", retryAfterSeconds } };
+    }
+  }
+
+  const queued = queue.some(item => item.videoId === addition.videoId);
+  switch (settings.duplicatePolicy) {
+    case "allow":
+      return { allowed: true, duplicate: false };
+    case "warn":
+      return { allowed: true, duplicate: queued };
+    case "reject":
+      return queued
+        ? { allowed: false, rejection: { code: "duplicate_song" } }
+        : { allowed: true, duplicate: false };
+    case "allow_after": {
+      if (queued) {
+        return { allowed: false, rejection: { code: "duplicate_song" } };
+      }
+      const lastEnded = Math.max(
+        0,
+        ...recentHistory.filter(entry => entry.videoId === addition.videoId).map(entry => entry.endedAt.getTime()),
+      );
+      const retryAfterSeconds = secondsUntil(lastEnded + settings.duplicateWindowMinutes * 60 * 1000, now);
+      return retryAfterSeconds > 0
+        ? { allowed: false, rejection: { code: "played_recently", retryAfterSeconds } }
+        : { allowed: true, duplicate: false };
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import type { Reaction, ReactionCounts, RoomSettings } from "./schema";
+
+export const REACTION_EMOJI: Record<Reaction, string> = {
+  clap: "👏",
+  heart: "❤️",
+  fire: "🔥",
+  laugh: "😂",
+};
+
+// One bonus point per this many reactions, up to MAX_REACTION_BONUS
+const REACTIONS_PER_POINT = 10;
+export const MAX_REACTION_BONUS = 10;
+
+export function totalReactions(counts: ReactionCounts): number {
+  return Object.values(counts).reduce((total, count) => total + (count ?? 0), 0);
+}
+
+export function reactionBonus(counts: ReactionCounts): number {
+  return Math.min(MAX_REACTION_BONUS, Math.floor(totalReactions(counts) / REACTIONS_PER_POINT));
+}
+
+// The score a performance is recorded with: the vocal score, plus the
+// reaction bonus when the room counts reactions, capped at 100
+export function scoreWithReactions(score: number, counts: ReactionCounts, settings: RoomSettings): number {
+  if (!settings.reactionScoreBonus) return score;
+  return Math.min(100, score + reactionBonus(counts));
+}
@@ -1,16 +1,99 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { pgTable, text, varchar, integer, bigint, doublePrecision, boolean, timestamp, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// What happens when someone queues a video that is already in the queue:
+// "allow_after" also refuses it until duplicateWindowMinutes after it last
+// finished playing
+export const duplicatePolicySchema = z.enum(["allow", "warn", "reject", "allow_after"]);
+
+export type DuplicatePolicy = z.infer<typeof duplicatePolicySchema>;
+
+// Per-room options. Stored as jsonb so new settings don't need a column;
+// always read through parseRoomSettings to fill in defaults for older rooms.
+export const roomSettingsSchema = z.object({
+  // Interleave singers round-robin instead of playing in strict queue order
+  fairRotation: z.boolean().default(false),
+  // Songs one singer may have waiting at once; null for no limit
+  maxWaitingPerSinger: z.number().int().min(1).max(50).nullable().default(null),
+  // Minimum time between two songs added by the same singer
+  addCooldownSeconds: z.number().int().min(0).max(3600).default(0),
+  duplicatePolicy: duplicatePolicySchema.default("allow"),
+  duplicateWindowMinutes: z.number().int().min(1).max(24 * 60).default(60),
+  // Guests' songs wait as "pending" until the host approves them
+  requireApproval: z.boolean().default(false),
+  // Let phones vote the playing song off; it is skipped once this share of
+  // the phones in the room voted
+  voteSkip: z.boolean().default(false),
+  voteSkipThreshold: z.number().min(0.1).max(1).default(0.5),
+  // Add the audience's reactions to a song's vocal score (see
+  // scoreWithReactions)
+  reactionScoreBonus: z.boolean().default(false),
+});
+
+export type RoomSettings = z.infer<typeof roomSettingsSchema>;
+
+export function parseRoomSettings(settings: unknown): RoomSettings {
+  const result = roomSettingsSchema.safeParse(settings ?? {});
+  return result.success ? result.data : roomSettingsSchema.parse({});
+}
+
+// The TV that creates a room (and any phone given its host secret) is the
+// host; everyone else joins as a guest
+export const deviceRoleSchema = z.enum(["host", "guest"]);
+
+export type DeviceRole = z.infer<typeof deviceRoleSchema>;
+
+export const deviceTypeSchema = z.enum(["tv", "mobile"]);
+
+export type DeviceType = z.infer<typeof deviceTypeSchema>;
+
+// How a song left the stage: played to the end, or skipped/removed early
+export const playOutcomeSchema = z.enum(["completed", "skipped"]);
+
+export type PlayOutcome = z.infer<typeof playOutcomeSchema>;
+
+// Where a song's media comes from, which decides the TV player that plays
+// it: the YouTube IFrame player, or an HTML5 <video> streaming a file from
+// the local library
+export const mediaSourceSchema = z.enum(["youtube", "local"]);
+
+export type MediaSource = z.infer<typeof mediaSourceSchema>;
+
+// What phones can send during a performance, floated over the TV video
+export const reactionSchema = z.enum(["clap", "heart", "fire", "laugh"]);
+
+export type Reaction = z.infer<typeof reactionSchema>;
+
+// How many of each reaction a performance got
+export const reactionCountsSchema = z.record(reactionSchema, z.number().int().min(0));
+
+export type ReactionCounts = z.infer<typeof reactionCountsSchema>;
+
 export const rooms = pgTable("rooms", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   code: varchar("code", { length: 6 }).notNull().unique(),
   currentVideoId: varchar("current_video_id"),
   currentVideoTitle: text("current_video_title"),
   currentVideoThumbnail: text("current_video_thumbnail"),
+  currentVideoSource: varchar("current_video_source", { length: 20 }).$type<MediaSource>(),
   isPlaying: boolean("is_playing").default(false),
+  // Where the TV last reported it was in the current song, in seconds, and
+  // when. Phones extrapolate from it while playing; a reloaded TV resumes
+  // from it.
+  playbackPosition: doublePrecision("playback_position").notNull().default(0),
+  playbackDuration: doublePrecision("playback_duration"),
+  playbackUpdatedAt: timestamp("playback_updated_at"),
+  settings: jsonb("settings").$type<RoomSettings>().notNull().default(roomSettingsSchema.parse({})),
+  // Never sent to clients except once, to the TV that created the room
+  hostSecret: varchar("host_secret").notNull(),
+  // Optional PIN guests must enter to join
+  pin: varchar("pin", { length: 8 }),
   createdAt: timestamp("created_at").defaultNow(),
+  // Bumped when a device joins and while any device stays connected; rooms
+  // idle for longer than ROOM_IDLE_TTL_HOURS are deleted
+  lastActiveAt: timestamp("last_active_at").notNull().defaultNow(),
 });
 
 export const queueItems = pgTable("queue_items", {
@@ -21,13 +104,98 @@ export const queueItems = pgTable("queue_items", {
   thumbnail: text("thumbnail").notNull(),
   channelTitle: text("channel_title"),
   duration: varchar("duration"),
+  source: varchar("source", { length: 20 }).$type<MediaSource>().notNull().default("youtube"),
   position: integer("position").notNull(),
+  // "waiting", "playing", or "pending" until the host approves it
   status: varchar("status", { length: 20 }).default("waiting"),
+  // Who requested the song: the requesting device and its name at the time
+  deviceId: varchar("device_id"),
+  singerName: text("singer_name"),
   addedAt: timestamp("added_at").defaultNow(),
+  // Set when the song starts playing
+  startedAt: timestamp("started_at"),
+  // Reactions phones sent while it played
+  reactions: jsonb("reactions").$type<ReactionCounts>().notNull().default({}),
+}, (table) => [
+  // At most one song can be playing in a room
+  uniqueIndex("queue_items_one_playing_per_room")
+    .on(table.roomId)
+    .where(sql`${table.status} = 'playing'`),
+]);
+
+// One row per device that joined a room. The token authenticates the
+// device's REST calls and is only ever sent to that device.
+export const deviceSessions = pgTable("device_sessions", {
+  token: varchar("token").primaryKey(),
+  roomId: varchar("room_id").notNull().references(() => rooms.id, { onDelete: "cascade" }),
+  deviceId: varchar("device_id").notNull(),
+  name: text("name").notNull(),
+  deviceType: varchar("device_type", { length: 10 }).$type<DeviceType>().notNull(),
+  role: varchar("role", { length: 10 }).$type<DeviceRole>().notNull(),
+  // Set by the host to keep the device out of the chat; kept with the
+  // session so reconnecting doesn't lift it
+  muted: boolean("muted").notNull().default(false),
+  // When the device last queued a song, for the room's add cooldown. Kept
+  // here because the song itself may already be gone from the queue.
+  lastAddedAt: timestamp("last_added_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every song that was on stage, written when it leaves the queue
+export const playHistory = pgTable("play_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  roomId: varchar("room_id").notNull().references(() => rooms.id, { onDelete: "cascade" }),
+  videoId: varchar("video_id").notNull(),
+  title: text("title").notNull(),
+  thumbnail: text("thumbnail").notNull(),
+  channelTitle: text("channel_title"),
+  duration: varchar("duration"),
+  source: varchar("source", { length: 20 }).$type<MediaSource>().notNull().default("youtube"),
+  deviceId: varchar("device_id"),
+  singerName: text("singer_name"),
+  startedAt: timestamp("started_at"),
+  endedAt: timestamp("ended_at").notNull().defaultNow(),
+  outcome: varchar("outcome", { length: 20 }).$type<PlayOutcome>().notNull(),
+  // Vocal score 0-100 from the TV microphone; null when it wasn't scored
+  score: integer("score"),
+  reactions: jsonb("reactions").$type<ReactionCounts>().notNull().default({}),
+});
+
+// Cached search results keyed by provider and normalized query
+export const searchCache = pgTable("search_cache", {
+  key: varchar("key").primaryKey(),
+  results: jsonb("results").$type<VideoSearchResult[]>().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Video files found in LIBRARY_DIR by the library indexer
+export const librarySongs = pgTable("library_songs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Relative to LIBRARY_DIR, with forward slashes
+  path: text("path").notNull().unique(),
+  title: text("title").notNull(),
+  artist: text("artist"),
+  durationSeconds: integer("duration_seconds"),
+  // Size and modification time tell the indexer whether a file changed
+  fileSize: bigint("file_size", { mode: "number" }).notNull(),
+  modifiedAt: timestamp("modified_at").notNull(),
+  // Artist, title and path, lowercased without diacritics
+  searchText: text("search_text").notNull(),
+  indexedAt: timestamp("indexed_at").defaultNow(),
+});
+
+// Room events too large for a Postgres NOTIFY payload. The notification
+// carries the row id instead; rows are deleted after a minute.
+export const roomEvents = pgTable("room_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  payload: jsonb("payload").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const roomsRelations = relations(rooms, ({ many }) => ({
   queueItems: many(queueItems),
+  deviceSessions: many(deviceSessions),
+  playHistory: many(playHistory),
 }));
 
 export const queueItemsRelations = relations(queueItems, ({ one }) => ({
@@ -37,20 +205,68 @@ export const queueItemsRelations = relations(queueItems, ({ one }) => ({
   }),
 }));
 
-export const insertRoomSchema = createInsertSchema(rooms).omit({
+export const playHistoryRelations = relations(playHistory, ({ one }) => ({
+  room: one(rooms, {
+    fields: [playHistory.roomId],
+    references: [rooms.id],
+  }),
+}));
+
+export const insertRoomSchema = createInsertSchema(rooms, {
+  currentVideoSource: mediaSourceSchema.nullable().optional(),
+  settings: roomSettingsSchema.optional(),
+}).omit({
   id: true,
   createdAt: true,
+  lastActiveAt: true,
 });
 
-export const insertQueueItemSchema = createInsertSchema(queueItems).omit({
+export const insertQueueItemSchema = createInsertSchema(queueItems, {
+  source: mediaSourceSchema.optional(),
+}).omit({
   id: true,
   addedAt: true,
+  reactions: true,
+});
+
+export const insertPlayHistorySchema = createInsertSchema(playHistory, {
+  outcome: playOutcomeSchema,
+  source: mediaSourceSchema.optional(),
+}).omit({
+  id: true,
+});
+
+export const insertLibrarySongSchema = createInsertSchema(librarySongs).omit({
+  id: true,
+  indexedAt: true,
+});
+
+export const insertDeviceSessionSchema = createInsertSchema(deviceSessions, {
+  deviceType: deviceTypeSchema,
+  role: deviceRoleSchema,
+}).omit({
+  lastAddedAt: true,
+  createdAt: true,
 });
 
 export type Room = typeof rooms.$inferSelect;
 export type InsertRoom = z.infer<typeof insertRoomSchema>;
+export type DeviceSession = typeof deviceSessions.$inferSelect;
+export type InsertDeviceSession = z.infer<typeof insertDeviceSessionSchema>;
+
+// What clients see of a room: no host secret, and only whether a PIN is set
+export type PublicRoom = Omit<Room, "hostSecret" | "pin"> & { hasPin: boolean };
+
+export function toPublicRoom(room: Room): PublicRoom {
+  const { hostSecret, pin, ...rest } = room;
+  return { ...rest, hasPin: !!pin };
+}
 export type QueueItem = typeof queueItems.$inferSelect;
 export type InsertQueueItem = z.infer<typeof insertQueueItemSchema>;
+export type LibrarySong = typeof librarySongs.$inferSelect;
+export type InsertLibrarySong = z.infer<typeof insertLibrarySongSchema>;
+export type PlayHistoryEntry = typeof playHistory.$inferSelect;
+export type InsertPlayHistoryEntry = z.infer<typeof insertPlayHistorySchema>;
 
 export const videoSearchResultSchema = z.object({
   videoId: z.string(),
@@ -58,35 +274,204 @@ export const videoSearchResultSchema = z.object({
   thumbnail: z.string(),
   channelTitle: z.string(),
   duration: z.string().optional(),
+  // Missing on older cached results, which are all from YouTube
+  source: mediaSourceSchema.optional(),
 });
 
 export type VideoSearchResult = z.infer<typeof videoSearchResultSchema>;
 
+// Move a queue item to toIndex among the songs after the one playing,
+// or straight to the front of that list with playNext
+export const moveQueueItemSchema = z.union([
+  z.object({ toIndex: z.number().int().min(0) }),
+  z.object({ playNext: z.literal(true) }),
+]);
+
+export type MoveQueueItem = z.infer<typeof moveQueueItemSchema>;
+
 export const connectedDeviceSchema = z.object({
   id: z.string(),
   name: z.string(),
-  type: z.enum(["tv", "mobile"]),
+  type: deviceTypeSchema,
+  role: deviceRoleSchema,
   joinedAt: z.string(),
+  // With several TVs in a room, the primary one detects the end of each
+  // song and reports the position; the others mirror it
+  primary: z.boolean(),
+  // The host muted it in the chat
+  muted: z.boolean(),
 });
 
 export type ConnectedDevice = z.infer<typeof connectedDeviceSchema>;
 
-export const wsMessageSchema = z.discriminatedUnion("type", [
-  z.object({ type: z.literal("join_room"), roomCode: z.string(), deviceName: z.string().optional(), deviceType: z.enum(["tv", "mobile"]).optional() }),
-  z.object({ type: z.literal("room_state"), room: z.any(), queue: z.array(z.any()), devices: z.array(connectedDeviceSchema).optional() }),
-  z.object({ type: z.literal("queue_updated"), queue: z.array(z.any()) }),
-  z.object({ type: z.literal("song_added"), song: z.any() }),
-  z.object({ type: z.literal("song_removed"), songId: z.string() }),
-  z.object({ type: z.literal("playback_state"), isPlaying: z.boolean() }),
-  z.object({ type: z.literal("current_song"), videoId: z.string().nullable(), title: z.string().nullable(), thumbnail: z.string().nullable() }),
-  z.object({ type: z.literal("skip_song") }),
-  z.object({ type: z.literal("remove_song"), songId: z.string() }),
+// Schemas for rows as they travel over the WebSocket. Timestamps arrive as
+// ISO strings and are coerced back into Dates.
+export const queueItemSchema = createSelectSchema(queueItems, {
+  source: mediaSourceSchema,
+  reactions: reactionCountsSchema,
+  addedAt: z.coerce.date().nullable(),
+  startedAt: z.coerce.date().nullable(),
+});
+
+export const playHistoryEntrySchema = createSelectSchema(playHistory, {
+  outcome: playOutcomeSchema,
+  source: mediaSourceSchema,
+  reactions: reactionCountsSchema,
+  startedAt: z.coerce.date().nullable(),
+  endedAt: z.coerce.date(),
+});
+
+export const publicRoomSchema = createSelectSchema(rooms, {
+  settings: roomSettingsSchema,
+  currentVideoSource: mediaSourceSchema.nullable(),
+  playbackUpdatedAt: z.coerce.date().nullable(),
+  createdAt: z.coerce.date().nullable(),
+  lastActiveAt: z.coerce.date(),
+}).omit({
+  hostSecret: true,
+  pin: true,
+}).extend({
+  hasPin: z.boolean(),
+});
+
+export const leaderboardSingerSchema = z.object({
+  singerName: z.string(),
+  averageScore: z.number().int(),
+  bestScore: z.number().int(),
+  songCount: z.number().int(),
+});
+
+export const leaderboardSongSchema = z.object({
+  // The play history row the score came from
+  id: z.string(),
+  videoId: z.string(),
+  title: z.string(),
+  thumbnail: z.string(),
+  singerName: z.string().nullable(),
+  score: z.number().int(),
+});
+
+export const leaderboardSchema = z.object({
+  topSingers: z.array(leaderboardSingerSchema),
+  topSongs: z.array(leaderboardSongSchema),
+});
+
+export type LeaderboardSinger = z.infer<typeof leaderboardSingerSchema>;
+export type LeaderboardSong = z.infer<typeof leaderboardSongSchema>;
+export type Leaderboard = z.infer<typeof leaderboardSchema>;
+
+export const CHAT_MAX_LENGTH = 200;
+
+// A chat line as the room sees it, after the server's profanity filter. The
+// TV runs them in its shout-out ticker.
+export const chatMessageSchema = z.object({
+  id: z.string(),
+  deviceId: z.string(),
+  name: z.string(),
+  text: z.string(),
+  sentAt: z.string(),
+});
+
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+
+// Messages a TV or phone sends to the server
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("join_room"), roomCode: z.string(), deviceName: z.string().max(50).optional(), deviceType: deviceTypeSchema.optional(), pin: z.string().optional(), hostSecret: z.string().optional(), sessionToken: z.string().optional() }),
+  z.object({ type: z.literal("skip_song"), songId: z.string().optional() }),
+  // Sent by the TV when the playing song reaches its end
+  z.object({ type: z.literal("song_finished"), songId: z.string(), score: z.number().int().min(0).max(100).optional() }),
+  z.object({ type: z.literal("move_song"), songId: z.string(), toIndex: z.number().int().min(0) }),
   z.object({ type: z.literal("play") }),
   z.object({ type: z.literal("pause") }),
-  z.object({ type: z.literal("error"), message: z.string() }),
+  // Sent by the TV every few seconds while a song plays, in seconds
+  z.object({ type: z.literal("playback_position"), songId: z.string(), position: z.number().min(0), duration: z.number().positive().nullable() }),
+  // Jump to a point in the playing song; 0 restarts it
+  z.object({ type: z.literal("seek"), position: z.number().min(0) }),
+  z.object({ type: z.literal("update_settings"), settings: roomSettingsSchema.partial() }),
+  z.object({ type: z.literal("set_primary_tv"), deviceId: z.string() }),
+  z.object({ type: z.literal("close_room") }),
+  // The host's decision on a pending song
+  z.object({ type: z.literal("approve_song"), songId: z.string() }),
+  z.object({ type: z.literal("reject_song"), songId: z.string() }),
+  // A phone's vote to skip the playing song, when the room allows it
+  z.object({ type: z.literal("vote_skip"), songId: z.string() }),
+  // Sent by phones while a song plays; the server drops reactions beyond
+  // a few per second
+  z.object({ type: z.literal("react"), songId: z.string(), reaction: reactionSchema }),
+  z.object({ type: z.literal("send_chat"), text: z.string().trim().min(1).max(CHAT_MAX_LENGTH) }),
+  // Host only: keep a device out of the chat, or let it back in
+  z.object({ type: z.literal("mute_device"), deviceId: z.string(), muted: z.boolean() }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+export const wsErrorCodeSchema = z.enum([
+  "invalid_message",
+  "room_not_found",
+  "pin_required",
+  "incorrect_pin",
+  "not_joined",
+  "not_allowed",
+  "song_not_movable",
+  "device_not_found",
+  "song_not_pending",
+  "muted",
+  "rate_limited",
+  "internal_error",
+]);
+
+export type WSErrorCode = z.infer<typeof wsErrorCodeSchema>;
+
+// Why POST /api/rooms/:code/queue refused a song, sent with the error
+// message so phones can explain it in their own language
+export const queueAddRejectionSchema = z.discriminatedUnion("code", [
+  z.object({ code: z.literal("singer_limit_reached"), limit: z.number() }),
+  z.object({ code: z.literal("duplicate_song") }),
+  z.object({ code: z.literal("played_recently"), retryAfterSeconds: z.number() }),
+  z.object({ code: z.literal("add_cooldown"), retryAfterSeconds: z.number() }),
+]);
+
+export type QueueAddRejection = z.infer<typeof queueAddRejectionSchema>;
+
+// A queued song, flagged when it was accepted despite already being queued
+// (duplicatePolicy "warn")
+export const addToQueueResponseSchema = queueItemSchema.extend({
+  duplicate: z.boolean(),
+});
+
+// "closed" by the host, or "expired" after sitting idle
+export const roomClosedReasonSchema = z.enum(["closed", "expired"]);
+
+export type RoomClosedReason = z.infer<typeof roomClosedReasonSchema>;
+
+// Messages the server sends to a TV or phone
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("room_state"), room: publicRoomSchema, queue: z.array(queueItemSchema), devices: z.array(connectedDeviceSchema).optional(), deviceId: z.string().optional(), role: deviceRoleSchema.optional(), sessionToken: z.string().optional() }),
+  z.object({ type: z.literal("queue_updated"), queue: z.array(queueItemSchema) }),
+  z.object({ type: z.literal("song_added"), song: queueItemSchema }),
+  z.object({ type: z.literal("song_removed"), songId: z.string() }),
+  z.object({ type: z.literal("history_added"), entry: playHistoryEntrySchema }),
+  z.object({ type: z.literal("leaderboard_updated"), leaderboard: leaderboardSchema }),
+  z.object({ type: z.literal("playback_state"), isPlaying: z.boolean() }),
+  z.object({ type: z.literal("playback_position"), position: z.number(), duration: z.number().nullable() }),
+  // Tells the TV to jump; phones follow the playback_position sent with it
+  z.object({ type: z.literal("seek"), position: z.number() }),
+  z.object({ type: z.literal("current_song"), videoId: z.string().nullable(), title: z.string().nullable(), thumbnail: z.string().nullable(), source: mediaSourceSchema.nullable() }),
+  z.object({ type: z.literal("error"), code: wsErrorCodeSchema, message: z.string() }),
+  z.object({ type: z.literal("settings_updated"), settings: roomSettingsSchema }),
   z.object({ type: z.literal("devices_updated"), devices: z.array(connectedDeviceSchema) }),
   z.object({ type: z.literal("device_joined"), device: connectedDeviceSchema }),
   z.object({ type: z.literal("device_left"), deviceId: z.string(), deviceName: z.string() }),
+  // Sent just before the server disconnects everyone; the room is gone
+  z.object({ type: z.literal("room_closed"), reason: roomClosedReasonSchema }),
+  // The host approved or rejected a pending song; its requester's phone
+  // tells them
+  z.object({ type: z.literal("song_reviewed"), song: queueItemSchema, approved: z.boolean() }),
+  // Skip votes for the playing song so far, out of the number needed
+  z.object({ type: z.literal("skip_votes"), songId: z.string(), votes: z.number(), needed: z.number() }),
+  // A phone's reaction to the playing song, with the song's totals so far
+  z.object({ type: z.literal("reaction"), songId: z.string(), reaction: reactionSchema, counts: reactionCountsSchema }),
+  z.object({ type: z.literal("chat_message"), message: chatMessageSchema }),
 ]);
 
-export type WSMessage = z.infer<typeof wsMessageSchema>;
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
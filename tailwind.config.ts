@@ -100,10 +100,20 @@ export default {
           from: { height: "var(--radix-accordion-content-height)" },
           to: { height: "0" },
         },
+        "float-up": {
+          from: { transform: "translateY(0) scale(1)", opacity: "1" },
+          to: { transform: "translateY(-60vh) scale(1.5)", opacity: "0" },
+        },
+        ticker: {
+          from: { transform: "translateX(100vw)" },
+          to: { transform: "translateX(-100%)" },
+        },
       },
       animation: {
         "accordion-down": "accordion-down 0.2s ease-out",
         "accordion-up": "accordion-up 0.2s ease-out",
+        "float-up": "float-up 3s ease-out forwards",
+        ticker: "ticker linear infinite",
       },
     },
   },